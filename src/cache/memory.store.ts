@@ -0,0 +1,82 @@
+import { CacheEntry, CacheSetOptions, CacheStore } from '../types';
+
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry<any>>();
+  private readonly tagIndex = new Map<string, Set<string>>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async get<V>(key: string): Promise<V | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.data;
+  }
+
+  async set<V>(key: string, value: V, options: CacheSetOptions): Promise<void> {
+    this.remove(key);
+
+    const now = Date.now();
+    this.entries.set(key, {
+      data: value,
+      timestamp: now,
+      expiresAt: now + options.ttl * 1000,
+      tags: options.tags,
+    });
+    options.tags.forEach((tag) => {
+      if (!this.tagIndex.has(tag)) {
+        this.tagIndex.set(tag, new Set());
+      }
+      this.tagIndex.get(tag)!.add(key);
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.remove(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    tags.forEach((tag) => {
+      const keys = this.tagIndex.get(tag);
+      if (!keys) return;
+      Array.from(keys).forEach((key) => this.remove(key));
+      this.tagIndex.delete(tag);
+    });
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.tagIndex.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    entry.tags.forEach((tag) => {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && !keys.size) {
+        this.tagIndex.delete(tag);
+      }
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { ErrorResponse } from '@nodesandbox/response-kit';
+import { HookAbortOptions } from '../types';
+
+export class HookAbortError extends ErrorResponse {
+  constructor(message: string, options: HookAbortOptions = {}) {
+    super({
+      code: options.code ?? 'HOOK_ABORTED',
+      message,
+      statusCode: options.statusCode ?? 400,
+      suggestions: options.suggestions,
+    });
+  }
+}
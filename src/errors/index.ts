@@ -0,0 +1,3 @@
+export * from './version-conflict.error';
+export * from './hook-abort.error';
+export * from './validation.error';
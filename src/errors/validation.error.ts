@@ -0,0 +1,16 @@
+import { ErrorResponse } from '@nodesandbox/response-kit';
+import { ValidationIssue } from '../types';
+
+export class ValidationError extends ErrorResponse {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super({
+      code: 'VALIDATION_ERROR',
+      message: `Validation failed for ${issues.length} field${issues.length === 1 ? '' : 's'}.`,
+      statusCode: 400,
+      suggestions: issues.map(({ path, message }) => `${path}: ${message}`),
+    });
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,28 @@
+import { ErrorResponse } from '@nodesandbox/response-kit';
+
+export class VersionConflictError extends ErrorResponse {
+  readonly currentVersion: number;
+  readonly expectedVersion: number;
+  readonly changedFields: string[];
+
+  constructor(
+    currentVersion: number,
+    expectedVersion: number,
+    changedFields: string[] = [],
+  ) {
+    super({
+      code: 'VERSION_CONFLICT',
+      message: `The document was modified concurrently (expected version ${expectedVersion}, current version ${currentVersion}).`,
+      statusCode: 409,
+      suggestions: [
+        'Reload the document and apply your changes again.',
+        ...(changedFields.length
+          ? [`Fields changed since version ${expectedVersion}: ${changedFields.join(', ')}.`]
+          : []),
+      ],
+    });
+    this.currentVersion = currentVersion;
+    this.expectedVersion = expectedVersion;
+    this.changedFields = changedFields;
+  }
+}
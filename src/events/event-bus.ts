@@ -0,0 +1,59 @@
+import { Document } from 'mongoose';
+import { LoggerService } from '@nodesandbox/logger';
+import { EventHandler, ServiceEventMap } from '../types';
+
+const Logger = LoggerService.getInstance();
+
+export class EventBus<M extends object> {
+  private readonly handlers = new Map<keyof M, Set<EventHandler<any>>>();
+
+  on<K extends keyof M>(event: K, handler: EventHandler<M[K]>): () => void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  once<K extends keyof M>(event: K, handler: EventHandler<M[K]>): () => void {
+    const unsubscribe = this.on(event, async (payload) => {
+      unsubscribe();
+      await handler(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof M>(event: K, handler: EventHandler<M[K]>): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Runs every handler of the event concurrently. A failing handler is
+   * logged and does not affect the other handlers nor the caller.
+   */
+  async emit<K extends keyof M>(event: K, payload: M[K]): Promise<void> {
+    const handlers = Array.from(this.handlers.get(event) ?? []);
+    await Promise.all(
+      handlers.map(async (handler) => {
+        try {
+          await handler(payload);
+        } catch (error) {
+          Logger.error(
+            `Handler of event '${String(event)}' failed: ${(error as Error).message}`,
+          );
+        }
+      }),
+    );
+  }
+
+  removeAllListeners(event?: keyof M): void {
+    if (event === undefined) {
+      this.handlers.clear();
+    } else {
+      this.handlers.delete(event);
+    }
+  }
+}
+
+// Receives the events of every service, tagged with their model name
+export const globalEventBus = new EventBus<ServiceEventMap<Document>>();
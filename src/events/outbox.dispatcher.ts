@@ -0,0 +1,189 @@
+import { Connection, FilterQuery, Model, Types } from 'mongoose';
+import { LoggerService } from '@nodesandbox/logger';
+import {
+  IOutboxDocument,
+  OutboxModelSingleton,
+} from '../models/plugins/outbox.plugin';
+import {
+  OutboxDispatcherOptions,
+  OutboxDispatchReport,
+  OutboxEvent,
+} from '../types';
+
+const Logger = LoggerService.getInstance();
+
+export class OutboxDispatcher {
+  private readonly options: Required<OutboxDispatcherOptions>;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<unknown>;
+  private stopped = true;
+
+  constructor(
+    private readonly connection: Connection,
+    options: OutboxDispatcherOptions,
+  ) {
+    this.options = {
+      batchSize: 50,
+      maxAttempts: 5,
+      backoff: (attempt) => Math.min(1000 * 2 ** (attempt - 1), 60000),
+      lockTimeout: 30000,
+      pollInterval: 1000,
+      ...options,
+    };
+  }
+
+  private get model(): Model<IOutboxDocument> {
+    return OutboxModelSingleton.getModel(this.connection);
+  }
+
+  /**
+   * Dispatches the events that are due. Only the oldest unfinished event of
+   * an aggregate is eligible, so that its events are delivered in order. A
+   * dead-lettered event holds back the events after it until it is retried.
+   */
+  async dispatchPending(): Promise<OutboxDispatchReport> {
+    const { batchSize, maxAttempts, backoff, lockTimeout, transport } = this.options;
+    const report: OutboxDispatchReport = { dispatched: 0, retried: 0, deadLettered: 0 };
+    const now = new Date();
+
+    const candidates = await this.model.aggregate<IOutboxDocument>([
+      { $match: { status: { $in: ['pending', 'processing', 'deadLettered'] } } },
+      { $sort: { createdAt: 1, _id: 1 } },
+      {
+        $group: {
+          _id: { aggregateType: '$aggregateType', aggregateId: '$aggregateId' },
+          event: { $first: '$$ROOT' },
+        },
+      },
+      { $replaceRoot: { newRoot: '$event' } },
+      {
+        $match: {
+          $or: [
+            { status: 'pending', nextAttemptAt: { $lte: now } },
+            // Events of a dispatcher that stopped while sending them
+            { status: 'processing', lockedUntil: { $lte: now } },
+          ],
+        },
+      },
+      { $sort: { createdAt: 1, _id: 1 } },
+      { $limit: batchSize },
+    ]);
+
+    for (const candidate of candidates) {
+      // Claimed with the attempt count as a guard against other dispatchers
+      const event = await this.model
+        .findOneAndUpdate(
+          { _id: candidate._id, status: candidate.status, attempts: candidate.attempts },
+          {
+            $set: {
+              status: 'processing',
+              lockedUntil: new Date(Date.now() + lockTimeout),
+            },
+            $inc: { attempts: 1 },
+          },
+          { new: true },
+        )
+        .lean();
+      if (!event) continue;
+
+      try {
+        await transport(this.toOutboxEvent(event));
+        await this.model.updateOne(
+          { _id: event._id },
+          {
+            $set: {
+              status: 'dispatched',
+              dispatchedAt: new Date(),
+              lockedUntil: null,
+              lastError: null,
+            },
+          },
+        );
+        report.dispatched++;
+      } catch (error) {
+        const deadLettered = event.attempts >= maxAttempts;
+        await this.model.updateOne(
+          { _id: event._id },
+          {
+            $set: {
+              status: deadLettered ? 'deadLettered' : 'pending',
+              nextAttemptAt: new Date(Date.now() + backoff(event.attempts)),
+              lockedUntil: null,
+              lastError: (error as Error).message,
+            },
+          },
+        );
+        if (deadLettered) {
+          Logger.error(
+            `Outbox event ${event._id} was dead-lettered after ${event.attempts} attempts: ${(error as Error).message}`,
+          );
+          report.deadLettered++;
+        } else {
+          report.retried++;
+        }
+      }
+    }
+
+    return report;
+  }
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    const poll = async () => {
+      if (this.stopped) return;
+      this.running = this.dispatchPending().catch((error) => {
+        Logger.error(`Outbox dispatch failed: ${(error as Error).message}`);
+      });
+      await this.running;
+      this.running = undefined;
+      if (!this.stopped) {
+        this.timer = setTimeout(poll, this.options.pollInterval);
+      }
+    };
+    void poll();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    await this.running;
+  }
+
+  async listDeadLetters(
+    filter: FilterQuery<IOutboxDocument> = {},
+  ): Promise<IOutboxDocument[]> {
+    return await this.model
+      .find({ ...filter, status: 'deadLettered' })
+      .sort({ createdAt: 1, _id: 1 })
+      .exec();
+  }
+
+  async retryDeadLetter(id: string | Types.ObjectId): Promise<boolean> {
+    const result = await this.model.updateOne(
+      { _id: id, status: 'deadLettered' },
+      {
+        $set: {
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          lastError: null,
+        },
+      },
+    );
+    return result.modifiedCount > 0;
+  }
+
+  private toOutboxEvent(event: Record<string, any>): OutboxEvent {
+    return {
+      _id: event._id,
+      aggregateType: event.aggregateType,
+      aggregateId: event.aggregateId,
+      eventType: event.eventType,
+      payload: event.payload,
+      attempts: event.attempts,
+      createdAt: event.createdAt,
+    };
+  }
+}
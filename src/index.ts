@@ -2,4 +2,7 @@ export * from './models';
 export * from './types';
 export * from './utils';
 export * from './repositories';
-export * from './services';
\ No newline at end of file
+export * from './services';
+export * from './cache';
+export * from './events';
+export * from './errors';
\ No newline at end of file
@@ -1,5 +1,13 @@
 import { Model, Schema, model as mongooseModel } from 'mongoose';
-import { IBaseModel } from '../types';
+import {
+  EncryptionConfig,
+  FuzzySearchConfig,
+  HistoryConfig,
+  IBaseModel,
+  OutboxConfig,
+  TenantConfig,
+  TextIndexConfig,
+} from '../types';
 import PluginManager from './plugins';
 
 function createBaseSchema<T extends IBaseModel>(
@@ -8,6 +16,12 @@ function createBaseSchema<T extends IBaseModel>(
     excludePlugins?: string[];
     includePlugins?: [(schema: Schema, options?: any) => void, object?][];
     modelName?: string;
+    textIndex?: TextIndexConfig;
+    fuzzySearch?: FuzzySearchConfig;
+    tenant?: boolean | TenantConfig;
+    encryption?: EncryptionConfig;
+    outbox?: boolean | OutboxConfig;
+    history?: HistoryConfig;
   } = {},
 ): Schema<T> {
   const baseSchema = new Schema<T>(
@@ -26,6 +40,12 @@ function createBaseSchema<T extends IBaseModel>(
     exclude: options.excludePlugins,
     include: options.includePlugins,
     modelName: options.modelName,
+    textIndex: options.textIndex,
+    fuzzySearch: options.fuzzySearch,
+    tenant: options.tenant,
+    encryption: options.encryption,
+    outbox: options.outbox,
+    history: options.history,
   });
 
   return baseSchema;
@@ -1,6 +1,7 @@
 import { AsyncStorageService } from '@nodesandbox/async-storage';
 import { LoggerService } from '@nodesandbox/logger';
-import { Schema, Document } from 'mongoose';
+import { Schema, Document, Query } from 'mongoose';
+import { getCurrentSession } from '../../utils/transaction';
 
 const LOGGER = LoggerService.getInstance();
 const ASYNC_STORAGE = AsyncStorageService.getInstance();
@@ -23,18 +24,32 @@ const auditTrailPlugin = (schema: Schema) => {
     next();
   });
 
+  // Upserts insert without running the save middleware
+  const stampUpsert = function (this: Query<any, any>) {
+    const update = this.getUpdate() as Record<string, any> | null;
+    if (!this.getOptions().upsert || !update || Array.isArray(update)) return;
+    if ('createdBy' in update || 'createdBy' in (update.$set ?? {})) return;
+    update.$setOnInsert = {
+      createdBy: ASYNC_STORAGE.get('currentUserId') || null,
+      ...update.$setOnInsert,
+    };
+  };
+
+  schema.pre('findOneAndUpdate', stampUpsert);
+  schema.pre('updateOne', stampUpsert);
+
   schema.methods.softDelete = async function () {
     const currentUserId = ASYNC_STORAGE.get('currentUserId');
     this.deletedAt = new Date();
     this.deletedBy = currentUserId || null;
-    await this.save();
+    await this.save({ session: this.$session() ?? getCurrentSession() });
   };
 
   schema.methods.restore = async function () {
     const currentUserId = ASYNC_STORAGE.get('currentUserId');
     this.deletedAt = null;
     this.deletedBy = null;
-    await this.save();
+    await this.save({ session: this.$session() ?? getCurrentSession() });
   };
 };
 
@@ -0,0 +1,326 @@
+import { Document, Model, Query, Schema } from 'mongoose';
+import {
+  decryptValue,
+  encryptValue,
+  getEncryptionKeyId,
+  getPathValue,
+  isEncryptedValue,
+  mapPathValue,
+} from '../../utils/encryption';
+import { EncryptedFieldOptions, EncryptionConfig } from '../../types';
+
+const FILTER_HOOKS = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'distinct',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateOne',
+  'updateMany',
+] as const;
+
+const UPDATE_HOOKS = [
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'replaceOne',
+  'updateOne',
+  'updateMany',
+] as const;
+
+const RESULT_HOOKS = [
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+] as const;
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor'];
+
+export interface ReencryptionReport {
+  scanned: number;
+  updated: number;
+}
+
+const encryptionPlugin = (schema: Schema, options: EncryptionConfig) => {
+  const { keyProvider } = options;
+  const fields = Object.entries(options.fields).map(([path, fieldOptions]) => ({
+    path,
+    ...(fieldOptions === true ? {} : fieldOptions) as EncryptedFieldOptions,
+  }));
+  const deterministicFields = fields
+    .filter((field) => field.deterministic)
+    .map((field) => field.path);
+
+  fields.forEach(({ path }) => {
+    const schemaType = schema.path(path);
+    if (!schemaType || !['String', 'Mixed'].includes(schemaType.instance)) {
+      throw new Error(
+        `Encrypted path '${path}' must be declared as a String or Mixed path.`,
+      );
+    }
+  });
+
+  // Values that are not payloads of a known key, or do not decrypt with it,
+  // are left as they are
+  const decryptField = (value: any) => {
+    if (!isEncryptedValue(value, keyProvider)) return value;
+    try {
+      return decryptValue(value, keyProvider);
+    } catch {
+      return value;
+    }
+  };
+
+  // Only values that decrypt are already encrypted, anything else is
+  // plaintext even when it looks like a payload
+  const isEncrypted = (value: any): value is string => {
+    return isEncryptedValue(value, keyProvider) && decryptField(value) !== value;
+  };
+
+  const encryptField = (value: any, deterministic = false, keyId?: string) => {
+    if (value === null || value === undefined || isEncrypted(value)) {
+      return value;
+    }
+    return encryptValue(value, keyProvider, deterministic, keyId);
+  };
+
+  const encryptObject = (source: any) => {
+    return fields.reduce(
+      (acc, { path, deterministic }) =>
+        mapPathValue(acc, path, (value) => encryptField(value, deterministic)),
+      source,
+    );
+  };
+
+  const decryptObject = (source: any) => {
+    return fields.reduce(
+      (acc, { path }) => mapPathValue(acc, path, decryptField),
+      source,
+    );
+  };
+
+  // Values written under a previous key are matched as well, until they are
+  // re-encrypted with the current one
+  const encryptCandidates = (value: any): any[] => {
+    if (value === null || value === undefined || isEncrypted(value)) {
+      return [value];
+    }
+    const keyIds = keyProvider.getKeyIds?.() ?? [keyProvider.getCurrentKeyId()];
+    return keyIds.map((keyId) => encryptValue(value, keyProvider, true, keyId));
+  };
+
+  const encryptCondition = (condition: any): Record<string, any> => {
+    const isOperatorObject =
+      condition &&
+      typeof condition === 'object' &&
+      !Array.isArray(condition) &&
+      Object.keys(condition).some((key) => key.startsWith('$'));
+    if (!isOperatorObject) return { $in: encryptCandidates(condition) };
+
+    return Object.entries(condition).reduce((acc, [operator, value]) => {
+      if (operator === '$eq' || operator === '$in') {
+        const values = operator === '$in' ? (value as unknown[]) : [value];
+        acc.$in = [...(acc.$in ?? []), ...values.flatMap(encryptCandidates)];
+      } else if (operator === '$ne' || operator === '$nin') {
+        const values = operator === '$nin' ? (value as unknown[]) : [value];
+        acc.$nin = [...(acc.$nin ?? []), ...values.flatMap(encryptCandidates)];
+      } else {
+        acc[operator] = value;
+      }
+      return acc;
+    }, {} as Record<string, any>);
+  };
+
+  const encryptFilter = (filter: Record<string, any>): Record<string, any> => {
+    return Object.entries(filter).reduce((acc, [key, value]) => {
+      if (LOGICAL_OPERATORS.includes(key) && Array.isArray(value)) {
+        acc[key] = value.map(encryptFilter);
+      } else if (deterministicFields.includes(key)) {
+        acc[key] = encryptCondition(value);
+      } else {
+        acc[key] = value;
+      }
+      return acc;
+    }, {} as Record<string, any>);
+  };
+
+  const encryptUpdate = (update: Record<string, any>): Record<string, any> => {
+    const encrypted = { ...encryptObject(update) };
+    ['$set', '$setOnInsert'].forEach((operator) => {
+      if (encrypted[operator]) {
+        encrypted[operator] = encryptObject(encrypted[operator]);
+      }
+    });
+    return encrypted;
+  };
+
+  const decryptDocument = (doc: Document) => {
+    fields.forEach(({ path }) => {
+      const value = doc.get(path);
+      if (isEncryptedValue(value, keyProvider)) {
+        doc.set(path, decryptField(value));
+        doc.unmarkModified(path);
+      }
+    });
+  };
+
+  // Used for history snapshots. Values that did not change keep their stored
+  // ciphertext so that randomized encryption does not show up as a change.
+  schema.statics.encryptFields = function (
+    source: Record<string, any>,
+    stored: Record<string, any> = {},
+  ) {
+    return fields.reduce(
+      (acc, { path, deterministic }) =>
+        mapPathValue(acc, path, (value) => {
+          const storedValue = getPathValue(stored, path);
+          if (
+            !isEncryptedValue(value, keyProvider) &&
+            isEncryptedValue(storedValue, keyProvider) &&
+            JSON.stringify(decryptField(storedValue)) === JSON.stringify(value)
+          ) {
+            return storedValue;
+          }
+          return encryptField(value, deterministic);
+        }),
+      source,
+    );
+  };
+
+  schema.statics.reencrypt = async function (
+    this: Model<any>,
+    { batchSize = 500 }: { batchSize?: number } = {},
+  ): Promise<ReencryptionReport> {
+    const currentKeyId = keyProvider.getCurrentKeyId();
+    const report: ReencryptionReport = { scanned: 0, updated: 0 };
+    const projection = Object.fromEntries(fields.map(({ path }) => [path, 1]));
+
+    // Read through the driver so that soft deleted and other tenants'
+    // documents are rotated too, without touching history
+    const cursor = this.collection.find({}, { projection, batchSize });
+    let operations: any[] = [];
+
+    const flush = async () => {
+      if (!operations.length) return;
+      await this.collection.bulkWrite(operations, { ordered: false });
+      report.updated += operations.length;
+      operations = [];
+    };
+
+    for await (const doc of cursor) {
+      report.scanned++;
+      const $set: Record<string, string> = {};
+      fields.forEach(({ path, deterministic }) => {
+        const value = getPathValue(doc, path);
+        if (!isEncryptedValue(value, keyProvider) || getEncryptionKeyId(value) === currentKeyId) {
+          return;
+        }
+        const plaintext = decryptField(value);
+        if (plaintext === value) return;
+        $set[path] = encryptValue(
+          plaintext,
+          keyProvider,
+          deterministic,
+          currentKeyId,
+        );
+      });
+
+      if (Object.keys($set).length) {
+        operations.push({ updateOne: { filter: { _id: doc._id }, update: { $set } } });
+      }
+      if (operations.length >= batchSize) await flush();
+    }
+    await flush();
+
+    return report;
+  };
+
+  // Raw documents are decrypted before hydration so that they are not
+  // marked as modified
+  schema.pre('init', function (raw: Record<string, any>) {
+    Object.assign(raw, decryptObject(raw));
+  });
+
+  schema.pre<Document>('save', function (next) {
+    fields.forEach(({ path, deterministic }) => {
+      if (this.isNew || this.isModified(path)) {
+        this.set(path, encryptField(this.get(path), deterministic));
+      }
+    });
+    next();
+  });
+
+  schema.post<Document>('save', function (doc) {
+    decryptDocument(doc);
+  });
+
+  schema.pre('insertMany', function (next, docs: any[]) {
+    (Array.isArray(docs) ? docs : [docs]).forEach((doc) => {
+      if (doc instanceof Document) {
+        fields.forEach(({ path, deterministic }) => {
+          doc.set(path, encryptField(doc.get(path), deterministic));
+        });
+      } else {
+        Object.assign(doc, encryptObject(doc));
+      }
+    });
+    next();
+  });
+
+  schema.post('insertMany', function (docs: Document[]) {
+    docs.forEach(decryptDocument);
+  });
+
+  FILTER_HOOKS.forEach((hook) => {
+    schema.pre(hook, function (this: Query<any, any>, next) {
+      if (deterministicFields.length) {
+        this.setQuery(encryptFilter(this.getQuery()));
+      }
+      next();
+    });
+  });
+
+  UPDATE_HOOKS.forEach((hook) => {
+    schema.pre(hook, function (this: Query<any, any>, next) {
+      const update = this.getUpdate();
+      if (update && !Array.isArray(update)) {
+        this.setUpdate(encryptUpdate(update));
+      }
+      next();
+    });
+  });
+
+  RESULT_HOOKS.forEach((hook) => {
+    schema.post(hook, function (this: Query<any, any>, result: any) {
+      // Hydrated documents are decrypted on init, only lean results are left
+      if (!this.mongooseOptions().lean || this.getOptions().decrypt === false) {
+        return;
+      }
+      (Array.isArray(result) ? result : [result])
+        .filter(Boolean)
+        .forEach((doc) => Object.assign(doc, decryptObject(doc)));
+    });
+  });
+};
+
+const reencryptModel = async (
+  model: Model<any>,
+  options: { batchSize?: number } = {},
+): Promise<ReencryptionReport> => {
+  const { reencrypt } = model as Model<any> & {
+    reencrypt?: (options: { batchSize?: number }) => Promise<ReencryptionReport>;
+  };
+  if (typeof reencrypt !== 'function') {
+    throw new Error(`Model '${model.modelName}' has no encrypted paths.`);
+  }
+  return await reencrypt.call(model, options);
+};
+
+export { reencryptModel };
+export default encryptionPlugin;
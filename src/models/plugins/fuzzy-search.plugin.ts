@@ -0,0 +1,161 @@
+import { Document, Model, Query, Schema } from 'mongoose';
+import { buildTrigrams, getSearchText } from '../../utils/fuzzy';
+import { findRawDocuments } from '../../utils/query';
+import { FuzzySearchConfig } from '../../types';
+
+const TRIGRAMS_FIELD = '__trigrams__';
+
+const fuzzySearchPlugin = (
+  schema: Schema,
+  options: FuzzySearchConfig,
+) => {
+  const { fields } = options;
+
+  schema.add({
+    [TRIGRAMS_FIELD]: { type: [String], select: false, default: [] },
+  });
+  schema.index({ [TRIGRAMS_FIELD]: 1 });
+
+  const computeTrigrams = (source: any): string[] => {
+    return buildTrigrams(getSearchText(source, fields));
+  };
+
+  const touchesSearchFields = (update: Record<string, any> = {}): boolean => {
+    const paths = [
+      ...Object.keys(update).filter((key) => !key.startsWith('$')),
+      ...Object.entries(update)
+        .filter(([key]) => key.startsWith('$'))
+        .flatMap(([, value]) => Object.keys(value ?? {})),
+    ];
+    return paths.some((path) =>
+      fields.some(
+        (field) =>
+          path === field ||
+          path.startsWith(`${field}.`) ||
+          field.startsWith(`${path}.`),
+      ),
+    );
+  };
+
+  const pendingUpdates = new WeakMap<object, unknown[]>();
+
+  const captureUpdatedIds = async (
+    query: Query<any, any>,
+    single: boolean,
+    replacement = false,
+  ) => {
+    const update = query.getUpdate();
+    // Replacements drop the stored trigrams along with the other fields
+    if (!replacement && (Array.isArray(update) || !touchesSearchFields(update ?? {}))) {
+      return;
+    }
+
+    const documents = await findRawDocuments(query, single, { _id: 1 });
+    pendingUpdates.set(query, documents.map((doc) => doc._id));
+  };
+
+  // Updates can change a single source field, tokens are rebuilt from the
+  // stored documents once the write is done
+  const refreshTrigrams = async (query: Query<any, any>, result: any) => {
+    const captured = pendingUpdates.get(query);
+    pendingUpdates.delete(query);
+    if (!captured) return;
+
+    const { session, upsert } = query.getOptions();
+    const upsertedId =
+      result?.lastErrorObject?.upserted ??
+      result?.upsertedId ??
+      (upsert && !captured.length ? result?._id : undefined);
+    const ids = upsertedId ? [...captured, upsertedId] : captured;
+    if (!ids.length) return;
+
+    const model = query.model as Model<any>;
+    const documents = await model.collection
+      .find(
+        { _id: { $in: ids } },
+        {
+          projection: Object.fromEntries(fields.map((field) => [field, 1])),
+          session: session ?? undefined,
+        },
+      )
+      .toArray();
+    if (!documents.length) return;
+
+    await model.collection.bulkWrite(
+      documents.map((doc) => ({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: { $set: { [TRIGRAMS_FIELD]: computeTrigrams(doc) } },
+        },
+      })),
+      { session: session ?? undefined },
+    );
+  };
+
+  // Results are scored against the indexed fields
+  schema.statics.getFuzzySearchFields = function () {
+    return fields;
+  };
+
+  schema.pre<Document>('save', function (next) {
+    if (this.isNew || fields.some((field) => this.isModified(field))) {
+      this.set(TRIGRAMS_FIELD, computeTrigrams(this));
+    }
+    next();
+  });
+
+  schema.pre('insertMany', function (next, docs: any[]) {
+    (Array.isArray(docs) ? docs : [docs]).forEach((doc) => {
+      doc[TRIGRAMS_FIELD] = computeTrigrams(doc);
+    });
+    next();
+  });
+
+  schema.pre('findOneAndUpdate', async function (next) {
+    await captureUpdatedIds(this, true);
+    next();
+  });
+
+  schema.pre('updateOne', async function (next) {
+    await captureUpdatedIds(this, true);
+    next();
+  });
+
+  schema.pre('updateMany', async function (next) {
+    await captureUpdatedIds(this, false);
+    next();
+  });
+
+  schema.pre('findOneAndReplace', async function (next) {
+    await captureUpdatedIds(this, true, true);
+    next();
+  });
+
+  schema.pre('replaceOne', async function (next) {
+    await captureUpdatedIds(this, true, true);
+    next();
+  });
+
+  schema.post('findOneAndUpdate', async function (result) {
+    await refreshTrigrams(this, result);
+  });
+
+  schema.post('updateOne', async function (result) {
+    await refreshTrigrams(this, result);
+  });
+
+  schema.post('updateMany', async function (result) {
+    await refreshTrigrams(this, result);
+  });
+
+  schema.post('findOneAndReplace', async function (result) {
+    await refreshTrigrams(this, result);
+  });
+
+  schema.post('replaceOne', async function (result) {
+    await refreshTrigrams(this, result);
+  });
+};
+
+export { TRIGRAMS_FIELD };
+export default fuzzySearchPlugin;
@@ -1,86 +1,466 @@
 import { AsyncStorageService } from '@nodesandbox/async-storage';
-import { Document, Schema, Types, Connection, Model } from 'mongoose';
+import { createWriteStream } from 'fs';
+import {
+  ClientSession,
+  Document,
+  Schema,
+  Types,
+  Connection,
+  Model,
+  Query,
+  mongo,
+} from 'mongoose';
+import { Writable } from 'stream';
+import { HistoryConfig } from '../../types';
+import { diffObjects, FieldDiff, isPlainObject, omitPaths } from '../../utils/diff';
+import { findRawDocuments, getRawFilter } from '../../utils/query';
+import { getCurrentSession } from '../../utils/transaction';
 
 const ASYNC_STORAGE = AsyncStorageService.getInstance();
+const HISTORY_BATCH_SIZE = 500;
+const DAY_IN_SECONDS = 24 * 60 * 60;
+// Fields the plugins and timestamps change along with any update
+const UPDATE_METADATA_FIELDS = ['updatedAt', 'updatedBy', '__version__', 'deletedAt', 'deletedBy'];
 
 interface IHistoryDocument extends Document {
   originalId: Types.ObjectId;
   changes: Record<string, any>;
+  diff?: FieldDiff[];
   snapshot?: any;
   modelName: string;
-  action: 'create' | 'update' | 'softDelete' | 'hardDelete' | 'restore';
+  action: 'create' | 'update' | 'softDelete' | 'hardDelete' | 'restore' | 'revert';
   modifiedBy?: Schema.Types.ObjectId;
+  metadata?: Record<string, any>;
+  createdAt?: Date;
 }
 
 const historySchema = new Schema<IHistoryDocument>(
   {
     originalId: { type: Schema.Types.ObjectId, required: true },
     changes: { type: Object, required: true },
+    diff: [
+      {
+        _id: false,
+        path: { type: String, required: true },
+        before: { type: Schema.Types.Mixed },
+        after: { type: Schema.Types.Mixed },
+      },
+    ],
     snapshot: { type: Object },
     modelName: { type: String, required: true },
     action: {
       type: String,
-      enum: ['create', 'update', 'softDelete', 'hardDelete', 'restore'],
+      enum: ['create', 'update', 'softDelete', 'hardDelete', 'restore', 'revert'],
       required: true,
     },
     modifiedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    metadata: { type: Object },
   },
   { timestamps: true },
 );
+historySchema.index({ originalId: 1, createdAt: 1 });
+historySchema.index({ modelName: 1, createdAt: 1 });
+
+export interface HistoryArchiveOptions {
+  before: Date;
+  destination: string | Writable;
+  remove?: boolean;
+  batchSize?: number;
+}
+
+export interface HistoryArchiveReport {
+  cutoff: Date;
+  archived: number;
+  removed: number;
+}
+
+export interface HistoryPruneOptions {
+  batchSize?: number;
+}
+
+export interface HistoryPruneReport {
+  removed: number;
+}
 
 class HistoryModelSingleton {
-  private static models = new Map<Connection, Model<IHistoryDocument>>();
+  private static models = new Map<Connection, Map<string, Model<IHistoryDocument>>>();
+  private static ttlDays = new Map<Model<IHistoryDocument>, number | undefined>();
 
-  static getModel(connection: Connection): Model<IHistoryDocument> {
+  // Models sharing a collection share its indexes, so only a collection of
+  // the model's own can have a TTL
+  static getModel(
+    connection: Connection,
+    { collection, ttlDays }: Pick<HistoryConfig, 'collection' | 'ttlDays'> = {},
+  ): Model<IHistoryDocument> {
     if (!this.models.has(connection)) {
-      const model = connection.model<IHistoryDocument>('History', historySchema);
-      this.models.set(connection, model);
+      this.models.set(connection, new Map());
+    }
+    const models = this.models.get(connection)!;
+    const key = collection ?? '';
+    const existing = models.get(key);
+
+    if (existing && this.ttlDays.get(existing) !== ttlDays) {
+      throw new Error(
+        `History collection '${existing.collection.collectionName}' is already used with another TTL.`,
+      );
     }
-    return this.models.get(connection)!;
+    if (!existing) {
+      const schema = historySchema.clone();
+      schema.index(
+        { createdAt: 1 },
+        ttlDays ? { expireAfterSeconds: Math.round(ttlDays * DAY_IN_SECONDS) } : {},
+      );
+      const model = collection
+        ? connection.model<IHistoryDocument>(`History:${collection}`, schema, collection)
+        : connection.model<IHistoryDocument>('History', schema);
+      models.set(key, model);
+      this.ttlDays.set(model, ttlDays);
+    }
+    return models.get(key)!;
   }
 }
 
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+};
+
+// Update entries written before snapshots were resolved may still carry raw
+// update operators, they are applied here to rebuild the document state.
+const resolveHistorySnapshot = (
+  snapshot: Record<string, any> = {},
+): Record<string, any> => {
+  const { $set = {}, $unset = {}, $inc = {}, ...rest } = snapshot;
+  const state = Object.keys(rest)
+    .filter((key) => !key.startsWith('$'))
+    .reduce((acc, key) => {
+      acc[key] = rest[key];
+      return acc;
+    }, {} as Record<string, any>);
+
+  Object.entries($set).forEach(([path, value]) => {
+    state[path] = value;
+  });
+  Object.keys($unset).forEach((path) => {
+    delete state[path];
+  });
+  Object.entries($inc).forEach(([path, value]) => {
+    state[path] = (state[path] ?? 0) + (value as number);
+  });
+
+  return state;
+};
+
+type HistoryEntryInput = {
+  originalId: Types.ObjectId;
+  action: IHistoryDocument['action'];
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+  metadata?: Record<string, any>;
+};
+
+// Top level fields an update can change, null when they cannot be told as for
+// aggregation pipelines
+const getUpdatedRoots = (update: unknown): string[] | null => {
+  if (!isPlainObject(update)) return null;
+  const paths = Object.entries(update).flatMap(([key, value]) => {
+    if (!key.startsWith('$')) return [key];
+    if (!isPlainObject(value)) return [];
+    return key === '$rename'
+      ? [...Object.keys(value), ...Object.values(value).map(String)]
+      : Object.keys(value);
+  });
+  return Array.from(
+    new Set([...paths.map((path) => path.split('.')[0]), ...UPDATE_METADATA_FIELDS]),
+  );
+};
+
+const resolveUpdateAction = (
+  changes: FieldDiff[],
+): IHistoryDocument['action'] => {
+  const deletion = changes.find((change) => change.path === 'deletedAt');
+  if (deletion && !deletion.before && deletion.after) return 'softDelete';
+  if (deletion && deletion.before && !deletion.after) return 'restore';
+  return 'update';
+};
+
+const diff = (
+  entryA: Pick<IHistoryDocument, 'snapshot'>,
+  entryB: Pick<IHistoryDocument, 'snapshot'>,
+): FieldDiff[] => {
+  return diffObjects(
+    resolveHistorySnapshot(entryA.snapshot),
+    resolveHistorySnapshot(entryB.snapshot),
+  );
+};
+
 const historyPlugin = <T extends Document>(
   schema: Schema<T>,
-  options: { modelName: string },
+  options: { modelName: string } & HistoryConfig,
 ) => {
-  const createHistoryEntry = async (
-    doc: Document & { constructor: any },
-    action: string,
-    changes: Record<string, any> = {},
-    snapshot?: any,
+  const { modelName, maxEntriesPerDocument, ...modelOptions } = options;
+  const pendingUpdates = new WeakMap<
+    object,
+    { documents: Record<string, any>[]; roots: string[] | null }
+  >();
+
+  if (modelOptions.ttlDays && !modelOptions.collection) {
+    throw new Error(`History of '${modelName}' needs a collection of its own to set ttlDays.`);
+  }
+
+  const getHistoryModel = (connection: Connection) =>
+    HistoryModelSingleton.getModel(connection, modelOptions);
+
+  const createHistoryEntries = async (
+    model: Model<any>,
+    inputs: HistoryEntryInput[],
+    session?: ClientSession | null,
   ) => {
+    if (!inputs.length) return;
+
     const currentUserId = ASYNC_STORAGE.get('currentUserId');
+    const { encryptFields } = model as Model<any> & {
+      encryptFields?: (source?: any, stored?: any) => any;
+    };
+    const HistoryModel = getHistoryModel(model.db);
+
+    const entries = inputs.map(({ originalId, action, metadata, ...input }) => {
+      // Encrypted paths are stored as ciphertext, never as plaintext
+      const before = encryptFields ? encryptFields.call(model, input.before) : input.before;
+      const after = encryptFields
+        ? encryptFields.call(model, input.after, input.before)
+        : input.after;
 
-    const connection = doc.constructor.db;
+      const changes = action === 'hardDelete' ? [] : diffObjects(before, after);
 
-    const HistoryModel = HistoryModelSingleton.getModel(connection);
+      return {
+        originalId,
+        changes: changes.reduce((acc, change) => {
+          acc[change.path] = change.after;
+          return acc;
+        }, {} as Record<string, any>),
+        diff: changes,
+        snapshot: action === 'hardDelete' ? before : after,
+        modelName,
+        action,
+        modifiedBy: currentUserId,
+        metadata,
+      };
+    });
 
-    await new HistoryModel({
-      originalId: doc._id,
-      changes,
-      snapshot,
-      modelName: options.modelName,
-      action,
-      modifiedBy: currentUserId,
-    }).save();
+    for (const batch of chunk(entries, HISTORY_BATCH_SIZE)) {
+      await HistoryModel.insertMany(batch, { session: session ?? undefined });
+    }
   };
 
-  schema.pre<T>('save', async function (next) {
-    const action = this.isNew ? 'create' : 'update';
-    const changes = this.isNew
-      ? this.toObject()
-      : this.modifiedPaths().reduce(
-          (acc: Record<string, any>, path: string) => {
-            acc[path] = this.get(path);
-            return acc;
-          },
-          {},
+  // Only the fields the update can change are kept until it is done, the
+  // rest of the before-image is taken from the after-image
+  const captureUpdatedDocuments = async (
+    query: Query<any, any>,
+    single: boolean,
+  ) => {
+    const roots = getUpdatedRoots(query.getUpdate());
+    const projection = roots && Object.fromEntries(roots.map((root) => [root, 1 as const]));
+    pendingUpdates.set(query, {
+      documents: await findRawDocuments(query, single, projection ?? undefined),
+      roots,
+    });
+  };
+
+  const recordUpdatedDocuments = async (query: Query<any, any>, result: any) => {
+    const pending = pendingUpdates.get(query);
+    pendingUpdates.delete(query);
+    if (!pending) return;
+    const { documents: beforeDocuments, roots } = pending;
+
+    const { session, upsert, historyAction, historyMetadata } = query.getOptions();
+    const upsertedId =
+      result?.lastErrorObject?.upserted ??
+      result?.upsertedId ??
+      (upsert && !beforeDocuments.length ? result?._id : undefined);
+    if (upsertedId) {
+      const inserted = await query.model.collection.findOne(
+        { _id: upsertedId },
+        { session: session ?? undefined },
+      );
+      if (inserted) {
+        await createHistoryEntries(
+          query.model,
+          [
+            {
+              originalId: inserted._id,
+              action: 'create',
+              before: {},
+              after: inserted,
+              metadata: historyMetadata,
+            },
+          ],
+          session,
         );
+      }
+    }
+
+    for (const batch of chunk(beforeDocuments, HISTORY_BATCH_SIZE)) {
+      // Read back through the driver so that soft delete filters do not hide the result
+      const afterDocuments = await query.model.collection
+        .find(
+          { _id: { $in: batch.map((doc) => doc._id) } },
+          { session: session ?? undefined },
+        )
+        .toArray();
+      const afterById = new Map(
+        afterDocuments.map((doc) => [String(doc._id), doc]),
+      );
+
+      const inputs = batch.reduce<HistoryEntryInput[]>((acc, captured) => {
+        const after = afterById.get(String(captured._id));
+        const before = after && roots ? { ...omitPaths(after, roots), ...captured } : captured;
+        const changes = after ? diffObjects(before, after) : [];
+        if (after && changes.length) {
+          acc.push({
+            originalId: captured._id,
+            action: historyAction ?? resolveUpdateAction(changes),
+            before,
+            after,
+            metadata: historyMetadata,
+          });
+        }
+        return acc;
+      }, []);
+      await createHistoryEntries(query.model, inputs, session);
+    }
+  };
 
-    const snapshot = this.toObject();
+  schema.statics.getHistoryModel = function () {
+    return getHistoryModel(this.db);
+  };
+
+  // Entries are streamed in creation order, each batch is removed once it has
+  // been written
+  schema.statics.archiveHistory = async function (
+    this: Model<any>,
+    { before, destination, remove = true, batchSize = HISTORY_BATCH_SIZE }: HistoryArchiveOptions,
+  ): Promise<HistoryArchiveReport> {
+    const HistoryModel = getHistoryModel(this.db);
+    const report: HistoryArchiveReport = { cutoff: before, archived: 0, removed: 0 };
+    const stream =
+      typeof destination === 'string'
+        ? createWriteStream(destination, { flags: 'a' })
+        : destination;
+    const write = (data: string) =>
+      new Promise<void>((resolve, reject) => {
+        stream.write(data, (error) => (error ? reject(error) : resolve()));
+      });
+
+    const cursor = HistoryModel.collection.find(
+      { modelName, createdAt: { $lt: before } },
+      { sort: { createdAt: 1, _id: 1 }, batchSize },
+    );
+    let batch: Record<string, any>[] = [];
+
+    const flush = async () => {
+      if (!batch.length) return;
+      await write(
+        batch.map((entry) => `${mongo.BSON.EJSON.stringify(entry)}\n`).join(''),
+      );
+      report.archived += batch.length;
+      if (remove) {
+        const { deletedCount } = await HistoryModel.collection.deleteMany({
+          _id: { $in: batch.map((entry) => entry._id) },
+        });
+        report.removed += deletedCount;
+      }
+      batch = [];
+    };
+
+    try {
+      for await (const entry of cursor) {
+        batch.push(entry);
+        if (batch.length >= batchSize) await flush();
+      }
+      await flush();
+    } finally {
+      await cursor.close();
+      if (typeof destination === 'string') {
+        await new Promise<void>((resolve, reject) => {
+          stream.end((error?: Error | null) => (error ? reject(error) : resolve()));
+        });
+      }
+    }
+
+    return report;
+  };
+
+  // Only the latest `maxEntriesPerDocument` entries of each document are kept.
+  // Run by a scheduler rather than on every write.
+  schema.statics.pruneHistory = async function (
+    this: Model<any>,
+    { batchSize = HISTORY_BATCH_SIZE }: HistoryPruneOptions = {},
+  ): Promise<HistoryPruneReport> {
+    const report: HistoryPruneReport = { removed: 0 };
+    if (!maxEntriesPerDocument) return report;
+
+    const HistoryModel = getHistoryModel(this.db);
+    const cursor = HistoryModel.aggregate<{ _id: Types.ObjectId }>([
+      { $match: { modelName } },
+      {
+        $setWindowFields: {
+          partitionBy: '$originalId',
+          sortBy: { createdAt: -1, _id: -1 },
+          output: { position: { $documentNumber: {} } },
+        },
+      },
+      { $match: { position: { $gt: maxEntriesPerDocument } } },
+      { $project: { _id: 1 } },
+    ])
+      .allowDiskUse(true)
+      .cursor({ batchSize });
+    let stale: Types.ObjectId[] = [];
+
+    const flush = async () => {
+      if (!stale.length) return;
+      const { deletedCount } = await HistoryModel.collection.deleteMany({
+        _id: { $in: stale },
+      });
+      report.removed += deletedCount;
+      stale = [];
+    };
+
+    for await (const entry of cursor) {
+      stale.push(entry._id);
+      if (stale.length >= batchSize) await flush();
+    }
+    await flush();
+
+    return report;
+  };
 
-    await createHistoryEntry(this, action, changes, snapshot);
+  schema.pre<T>('save', async function (next) {
+    const model = this.constructor as Model<any>;
+    const before = this.isNew
+      ? {}
+      : await model.collection.findOne(
+        { _id: this._id },
+        { session: this.$session() ?? undefined },
+      );
+    const after = this.toObject({ depopulate: true });
+    const changes = diffObjects(before ?? {}, after);
+
+    await createHistoryEntries(
+      model,
+      [
+        {
+          originalId: this._id as Types.ObjectId,
+          action: this.isNew ? 'create' : resolveUpdateAction(changes),
+          before: before ?? {},
+          after,
+        },
+      ],
+      this.$session(),
+    );
     next();
   });
 
@@ -88,87 +468,141 @@ const historyPlugin = <T extends Document>(
     this: T & { deletedAt: Date | null },
   ) {
     this.deletedAt = new Date();
-    await this.save();
-    const snapshot = this.toObject();
-    await createHistoryEntry(
-      this as Document,
-      'softDelete',
-      { deletedAt: this.deletedAt },
-      snapshot,
-    );
+    await this.save({ session: this.$session() ?? getCurrentSession() });
   };
 
   schema.methods.restore = async function (
     this: T & { deletedAt: Date | null },
   ) {
     this.deletedAt = null;
-    await this.save();
-    const snapshot = this.toObject();
-    await createHistoryEntry(
-      this as Document,
-      'restore',
-      { deletedAt: null },
-      snapshot,
-    );
+    await this.save({ session: this.$session() ?? getCurrentSession() });
   };
 
   schema.pre<T>(
     'deleteOne',
     { document: true, query: false },
     async function (next) {
-      const snapshot = this.toObject();
-      await createHistoryEntry(this, 'hardDelete', {}, snapshot);
+      await createHistoryEntries(
+        this.constructor as Model<any>,
+        [
+          {
+            originalId: this._id as Types.ObjectId,
+            action: 'hardDelete',
+            before: this.toObject({ depopulate: true }),
+          },
+        ],
+        this.$session(),
+      );
       next();
     },
   );
 
+  // Deleted documents are read through the driver, trashed documents are
+  // purged with these queries
   schema.pre('findOneAndDelete', async function (next) {
-    const doc = await this.model.findOne(this.getQuery());
+    const { session, historyMetadata } = this.getOptions();
+    const [doc] = await findRawDocuments(this, true);
     if (doc) {
-      const snapshot = doc.toObject();
-      await createHistoryEntry(doc as Document, 'hardDelete', {}, snapshot);
+      await createHistoryEntries(
+        this.model,
+        [
+          {
+            originalId: doc._id as Types.ObjectId,
+            action: 'hardDelete',
+            before: doc,
+            metadata: historyMetadata,
+          },
+        ],
+        session,
+      );
     }
     next();
   });
 
-  schema.pre('findOneAndUpdate', async function (next) {
-    const doc = await this.model.findOne(this.getQuery());
-    const updates = this.getUpdate();
-    if (doc) {
-      const snapshot = { ...doc.toObject(), ...updates };
-      await createHistoryEntry(
-        doc as Document,
-        'update',
-        updates as Record<string, any>,
-        snapshot,
-      );
+  // Streamed so that large deletes never hold every document in memory
+  schema.pre('deleteMany', async function (next) {
+    const { session, historyMetadata } = this.getOptions();
+    const cursor = this.model.collection
+      .find(getRawFilter(this), { session: session ?? undefined })
+      .batchSize(HISTORY_BATCH_SIZE);
+    let inputs: HistoryEntryInput[] = [];
+
+    for await (const doc of cursor) {
+      inputs.push({
+        originalId: doc._id as Types.ObjectId,
+        action: 'hardDelete',
+        before: doc,
+        metadata: historyMetadata,
+      });
+      if (inputs.length >= HISTORY_BATCH_SIZE) {
+        await createHistoryEntries(this.model, inputs, session);
+        inputs = [];
+      }
     }
+    await createHistoryEntries(this.model, inputs, session);
     next();
   });
 
-  schema.pre('deleteMany', async function (next) {
-    const docs = await this.model.find(this.getQuery());
-    for (const doc of docs) {
-      const snapshot = doc.toObject();
-      await createHistoryEntry(doc as Document, 'hardDelete', {}, snapshot);
-    }
+  schema.pre('findOneAndUpdate', async function (next) {
+    await captureUpdatedDocuments(this, true);
+    next();
+  });
+
+  schema.pre('updateOne', async function (next) {
+    await captureUpdatedDocuments(this, true);
     next();
   });
 
   schema.pre('updateMany', async function (next) {
-    const updates = this.getUpdate();
-    const docs = await this.model.find(this.getQuery());
-    for (const doc of docs) {
-      const snapshot = { ...doc.toObject(), ...updates };
-      await createHistoryEntry(
-        doc as Document,
-        'update',
-        updates as Record<string, any>,
-        snapshot,
-      );
-    }
+    await captureUpdatedDocuments(this, false);
     next();
   });
+
+  schema.post('findOneAndUpdate', async function (result) {
+    await recordUpdatedDocuments(this, result);
+  });
+
+  schema.post('updateOne', async function (result) {
+    await recordUpdatedDocuments(this, result);
+  });
+
+  schema.post('updateMany', async function (result) {
+    await recordUpdatedDocuments(this, result);
+  });
 };
 
+const archiveHistory = async (
+  model: Model<any>,
+  options: HistoryArchiveOptions,
+): Promise<HistoryArchiveReport> => {
+  const { archiveHistory: archive } = model as Model<any> & {
+    archiveHistory?: (options: HistoryArchiveOptions) => Promise<HistoryArchiveReport>;
+  };
+  if (typeof archive !== 'function') {
+    throw new Error(`Model '${model.modelName}' has no history.`);
+  }
+  return await archive.call(model, options);
+};
+
+const pruneHistory = async (
+  model: Model<any>,
+  options: HistoryPruneOptions = {},
+): Promise<HistoryPruneReport> => {
+  const { pruneHistory: prune } = model as Model<any> & {
+    pruneHistory?: (options: HistoryPruneOptions) => Promise<HistoryPruneReport>;
+  };
+  if (typeof prune !== 'function') {
+    throw new Error(`Model '${model.modelName}' has no history.`);
+  }
+  return await prune.call(model, options);
+};
+
+export {
+  HistoryModelSingleton,
+  IHistoryDocument,
+  archiveHistory,
+  pruneHistory,
+  diff,
+  resolveHistorySnapshot,
+};
 export default historyPlugin;
@@ -1,9 +1,38 @@
 import { Schema } from 'mongoose';
+import { TextIndexConfig } from '../../types';
+
 const indexPlugin = (
   schema: Schema,
-  options: { fields: Record<string, 1 | -1 | 'text' | 'hashed'> },
+  options: {
+    fields: Record<string, 1 | -1 | 'text' | 'hashed'>;
+    text?: TextIndexConfig;
+  },
 ) => {
   schema.index(options.fields);
+
+  if (options.text) {
+    const {
+      fields = [],
+      weightedFields = {},
+      language,
+      languageOverride,
+    } = options.text;
+    const textFields = Array.from(
+      new Set([...fields, ...Object.keys(weightedFields)]),
+    );
+
+    if (textFields.length) {
+      schema.index(
+        Object.fromEntries(textFields.map((field) => [field, 'text'])),
+        {
+          name: 'text_search',
+          weights: weightedFields,
+          ...(language && { default_language: language }),
+          ...(languageOverride && { language_override: languageOverride }),
+        },
+      );
+    }
+  }
 };
 
 export default indexPlugin;
@@ -4,6 +4,18 @@ import versioningPlugin from './versioning.plugin';
 import auditTrailPlugin from './audit-trail.plugin';
 import historyPlugin from './history.plugin';
 import indexPlugin from './index.plugin';
+import fuzzySearchPlugin from './fuzzy-search.plugin';
+import tenantPlugin from './tenant.plugin';
+import encryptionPlugin from './encryption.plugin';
+import outboxPlugin from './outbox.plugin';
+import {
+  EncryptionConfig,
+  FuzzySearchConfig,
+  HistoryConfig,
+  OutboxConfig,
+  TenantConfig,
+  TextIndexConfig,
+} from '../../types';
 
 type PluginFunction = (schema: Schema, options?: any) => void;
 type PluginWithOptions = [PluginFunction, object?];
@@ -29,20 +41,55 @@ const PluginManager = {
       exclude?: string[];
       include?: PluginWithOptions[];
       modelName?: string;
+      textIndex?: TextIndexConfig;
+      fuzzySearch?: FuzzySearchConfig;
+      tenant?: boolean | TenantConfig;
+      encryption?: EncryptionConfig;
+      outbox?: boolean | OutboxConfig;
+      history?: HistoryConfig;
     } = {},
   ) {
-    const { exclude = [], include = [], modelName } = options;
+    const {
+      exclude = [],
+      include = [],
+      modelName,
+      textIndex,
+      fuzzySearch,
+      tenant,
+      encryption,
+      outbox,
+      history,
+    } = options;
+
+    // Applied first so that the other plugins only ever see ciphertext
+    if (encryption && Object.keys(encryption.fields).length) {
+      schema.plugin(encryptionPlugin, encryption);
+    }
+
+    // Before the base plugins, so that history snapshots carry the tenant
+    if (tenant) {
+      schema.plugin(tenantPlugin, tenant === true ? {} : tenant);
+    }
 
     this.basePlugins.forEach(([plugin, defaultOptions], name) => {
       if (!exclude.includes(name)) {
         const pluginOptions = {
           ...(defaultOptions || {}),
-          ...(name === 'history' && modelName ? { modelName } : {}),
+          ...(name === 'history' ? { ...history, ...(modelName ? { modelName } : {}) } : {}),
+          ...(name === 'index' && textIndex ? { text: textIndex } : {}),
         };
         schema.plugin(plugin, pluginOptions);
       }
     });
 
+    if (fuzzySearch?.fields.length) {
+      schema.plugin(fuzzySearchPlugin, fuzzySearch);
+    }
+
+    if (outbox) {
+      schema.plugin(outboxPlugin, { ...(outbox === true ? {} : outbox), modelName });
+    }
+
     include.forEach(([plugin, opts]) => {
       const pluginOptions = { ...(opts || {}), modelName };
       schema.plugin(plugin, pluginOptions);
@@ -54,4 +101,20 @@ const PluginManager = {
   },
 };
 
+export {
+  HistoryArchiveOptions,
+  HistoryArchiveReport,
+  HistoryModelSingleton,
+  HistoryPruneOptions,
+  HistoryPruneReport,
+  IHistoryDocument,
+  archiveHistory,
+  diff,
+  pruneHistory,
+  resolveHistorySnapshot,
+} from './history.plugin';
+export { TRIGRAMS_FIELD } from './fuzzy-search.plugin';
+export { IOutboxDocument, OutboxModelSingleton } from './outbox.plugin';
+export { ReencryptionReport, reencryptModel } from './encryption.plugin';
+export { tenantPlugin };
 export default PluginManager;
@@ -0,0 +1,269 @@
+import {
+  ClientSession,
+  Connection,
+  Document,
+  Model,
+  Query,
+  Schema,
+  Types,
+} from 'mongoose';
+import { diffObjects } from '../../utils/diff';
+import { findRawDocuments } from '../../utils/query';
+import { OutboxConfig, OutboxEventType, OutboxStatus } from '../../types';
+
+interface IOutboxDocument extends Document {
+  aggregateType: string;
+  aggregateId: Types.ObjectId;
+  eventType: OutboxEventType;
+  payload: Record<string, any>;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date | null;
+  lastError?: string | null;
+  dispatchedAt?: Date | null;
+  createdAt?: Date;
+}
+
+const outboxSchema = new Schema<IOutboxDocument>(
+  {
+    aggregateType: { type: String, required: true },
+    aggregateId: { type: Schema.Types.ObjectId, required: true },
+    eventType: {
+      type: String,
+      enum: ['created', 'updated', 'deleted', 'restored'],
+      required: true,
+    },
+    payload: { type: Object, required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'dispatched', 'deadLettered'],
+      default: 'pending',
+    },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: Date.now },
+    lockedUntil: { type: Date, default: null },
+    lastError: { type: String, default: null },
+    dispatchedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+outboxSchema.index({ status: 1, createdAt: 1 });
+outboxSchema.index({ aggregateType: 1, aggregateId: 1, createdAt: 1 });
+
+class OutboxModelSingleton {
+  private static models = new Map<Connection, Model<IOutboxDocument>>();
+
+  static getModel(connection: Connection): Model<IOutboxDocument> {
+    if (!this.models.has(connection)) {
+      const model = connection.model<IOutboxDocument>('Outbox', outboxSchema);
+      this.models.set(connection, model);
+    }
+    return this.models.get(connection)!;
+  }
+}
+
+type OutboxEntryInput = {
+  eventType: OutboxEventType;
+  document: Record<string, any>;
+};
+
+const ALL_EVENTS: OutboxEventType[] = ['created', 'updated', 'deleted', 'restored'];
+
+const resolveEventType = (
+  before: Record<string, any> | undefined,
+  after: Record<string, any>,
+): OutboxEventType => {
+  if (!before) return 'created';
+  if (!before.deletedAt && after.deletedAt) return 'deleted';
+  if (before.deletedAt && !after.deletedAt) return 'restored';
+  return 'updated';
+};
+
+const outboxPlugin = (
+  schema: Schema,
+  options: OutboxConfig & { modelName?: string },
+) => {
+  const { modelName, events = ALL_EVENTS, payload } = options;
+  const pendingUpdates = new WeakMap<object, Record<string, any>[]>();
+  const pendingDeletes = new WeakMap<object, Record<string, any>[]>();
+
+  // Events are written in the session of the change, so that a transaction
+  // commits or discards both together
+  const writeEvents = async (
+    model: Model<any>,
+    entries: OutboxEntryInput[],
+    session?: ClientSession | null,
+  ) => {
+    const selected = entries.filter(({ eventType }) => events.includes(eventType));
+    if (!selected.length) return;
+
+    const { encryptFields } = model as Model<any> & {
+      encryptFields?: (source: any) => any;
+    };
+    const OutboxModel = OutboxModelSingleton.getModel(model.db);
+
+    await OutboxModel.insertMany(
+      selected.map(({ eventType, document }) => {
+        const snapshot = encryptFields ? encryptFields.call(model, document) : document;
+        return {
+          aggregateType: modelName ?? model.modelName,
+          aggregateId: document._id,
+          eventType,
+          payload: payload ? payload(snapshot, eventType) : snapshot,
+        };
+      }),
+      { session: session ?? undefined },
+    );
+  };
+
+  // Read through the driver, like the after-images, so that query middleware
+  // such as the soft delete filter cannot change what is captured
+  const captureDocuments = async (
+    query: Query<any, any>,
+    single: boolean,
+    target: WeakMap<object, Record<string, any>[]>,
+  ) => {
+    target.set(query, await findRawDocuments(query, single));
+  };
+
+  const recordUpdatedDocuments = async (query: Query<any, any>, result: any) => {
+    const beforeDocuments = pendingUpdates.get(query);
+    pendingUpdates.delete(query);
+    if (!beforeDocuments) return;
+
+    const upsertedId =
+      result?.lastErrorObject?.upserted ??
+      result?.upsertedId ??
+      (beforeDocuments.length ? undefined : result?._id);
+    const ids = [
+      ...beforeDocuments.map((doc) => doc._id),
+      ...(upsertedId ? [upsertedId] : []),
+    ];
+    if (!ids.length) return;
+
+    const { session } = query.getOptions();
+    const afterDocuments = await query.model.collection
+      .find({ _id: { $in: ids } }, { session: session ?? undefined })
+      .toArray();
+    const beforeById = new Map(
+      beforeDocuments.map((doc) => [String(doc._id), doc]),
+    );
+
+    const entries = afterDocuments
+      .map((after) => ({ before: beforeById.get(String(after._id)), after }))
+      .filter(({ before, after }) => !before || diffObjects(before, after).length)
+      .map(({ before, after }) => ({
+        eventType: resolveEventType(before, after),
+        document: after,
+      }));
+    await writeEvents(query.model, entries, session);
+  };
+
+  const recordDeletedDocuments = async (query: Query<any, any>) => {
+    const documents = pendingDeletes.get(query);
+    pendingDeletes.delete(query);
+    if (!documents?.length) return;
+
+    await writeEvents(
+      query.model,
+      documents.map((document) => ({ eventType: 'deleted', document })),
+      query.getOptions().session,
+    );
+  };
+
+  schema.pre<Document>('save', function (next) {
+    const changed = this.isNew || this.modifiedPaths().length > 0;
+    this.$locals.outboxEventType = !changed
+      ? undefined
+      : this.isNew
+        ? 'created'
+        : this.isModified('deletedAt')
+          ? this.get('deletedAt') ? 'deleted' : 'restored'
+          : 'updated';
+    next();
+  });
+
+  schema.post<Document>('save', async function (doc) {
+    const eventType = doc.$locals.outboxEventType as OutboxEventType | undefined;
+    delete doc.$locals.outboxEventType;
+    if (!eventType) return;
+
+    await writeEvents(
+      doc.constructor as Model<any>,
+      [{ eventType, document: doc.toObject({ depopulate: true }) }],
+      doc.$session(),
+    );
+  });
+
+  schema.post('insertMany', async function (docs: Document[]) {
+    const [first] = docs;
+    if (!first) return;
+
+    await writeEvents(
+      first.constructor as Model<any>,
+      docs.map((doc) => ({
+        eventType: 'created',
+        document: doc.toObject({ depopulate: true }),
+      })),
+      first.$session(),
+    );
+  });
+
+  schema.pre('findOneAndUpdate', async function (next) {
+    await captureDocuments(this, true, pendingUpdates);
+    next();
+  });
+
+  schema.pre('updateOne', async function (next) {
+    await captureDocuments(this, true, pendingUpdates);
+    next();
+  });
+
+  schema.pre('updateMany', async function (next) {
+    await captureDocuments(this, false, pendingUpdates);
+    next();
+  });
+
+  schema.post('findOneAndUpdate', async function (result) {
+    await recordUpdatedDocuments(this, result);
+  });
+
+  schema.post('updateOne', async function (result) {
+    await recordUpdatedDocuments(this, result);
+  });
+
+  schema.post('updateMany', async function (result) {
+    await recordUpdatedDocuments(this, result);
+  });
+
+  schema.pre('findOneAndDelete', async function (next) {
+    await captureDocuments(this, true, pendingDeletes);
+    next();
+  });
+
+  schema.pre('deleteOne', async function (next) {
+    await captureDocuments(this, true, pendingDeletes);
+    next();
+  });
+
+  schema.pre('deleteMany', async function (next) {
+    await captureDocuments(this, false, pendingDeletes);
+    next();
+  });
+
+  schema.post('findOneAndDelete', async function () {
+    await recordDeletedDocuments(this);
+  });
+
+  schema.post('deleteOne', async function () {
+    await recordDeletedDocuments(this);
+  });
+
+  schema.post('deleteMany', async function () {
+    await recordDeletedDocuments(this);
+  });
+};
+
+export { IOutboxDocument, OutboxModelSingleton };
+export default outboxPlugin;
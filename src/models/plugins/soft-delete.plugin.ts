@@ -1,4 +1,4 @@
-import { Schema } from 'mongoose';
+import { Query, Schema } from 'mongoose';
 
 const softDeletePlugin = (schema: Schema) => {
   const deletedAtField = 'deletedAt';
@@ -15,7 +15,10 @@ const softDeletePlugin = (schema: Schema) => {
     await this.save();
   };
 
-  const addNotDeletedCondition = function (this: any) {
+  // Queries that already filter on the deletion date, or that set the
+  // `includeDeleted` option, are left as they are
+  const addNotDeletedCondition = function (this: Query<any, any>) {
+    if (this.getOptions().includeDeleted || deletedAtField in this.getFilter()) return;
     this.where({ [deletedAtField]: null });
   };
 
@@ -25,6 +28,7 @@ const softDeletePlugin = (schema: Schema) => {
   schema.pre('updateMany', addNotDeletedCondition);
   schema.pre('countDocuments', addNotDeletedCondition);
   schema.pre('aggregate', function (next) {
+    if (this.options.includeDeleted) return next();
     this.pipeline().unshift({ $match: { [deletedAtField]: null } });
     next();
   });
@@ -0,0 +1,129 @@
+import { AsyncStorageService } from '@nodesandbox/async-storage';
+import { Document, Query, Schema, SchemaType } from 'mongoose';
+import { getTenantBypass } from '../../utils/tenant';
+import { TenantConfig } from '../../types';
+
+const ASYNC_STORAGE = AsyncStorageService.getInstance();
+
+const tenantPlugin = (schema: Schema, options: TenantConfig = {}) => {
+  const {
+    field = 'tenantId',
+    contextKey = 'tenantId',
+    type = String,
+    scopeUniqueIndexes = true,
+  } = options;
+
+  schema.add({ [field]: { type, index: true } });
+
+  // Unique values only have to be unique within a tenant
+  if (scopeUniqueIndexes) {
+    schema.eachPath((path, schemaType) => {
+      if (path === field || !schemaType.options?.unique) return;
+      schemaType.index(false);
+      schema.index({ [field]: 1, [path]: 1 }, { unique: true });
+    });
+  }
+
+  const getCurrentTenantId = () => ASYNC_STORAGE.get(contextKey);
+
+  const requireTenantId = () => {
+    const tenantId = getCurrentTenantId();
+    if (tenantId === undefined || tenantId === null) {
+      throw new Error(
+        `Tenant context is missing: set '${contextKey}' in the async storage or bypass tenant scoping explicitly.`,
+      );
+    }
+    return tenantId;
+  };
+
+  // Driver reads and aggregations are not cast by mongoose
+  const castTenantId = () => schema.path<SchemaType>(field).cast(requireTenantId());
+
+  const stampDocument = (doc: Record<string, any>, isNew: boolean) => {
+    if (getTenantBypass()) return;
+    const tenantId = requireTenantId();
+    const current = doc instanceof Document ? doc.get(field) : doc[field];
+
+    if (current !== undefined && current !== null && String(current) !== String(tenantId)) {
+      throw new Error('Documents cannot be moved to another tenant.');
+    }
+    if (isNew) {
+      if (doc instanceof Document) {
+        doc.set(field, tenantId);
+      } else {
+        doc[field] = tenantId;
+      }
+    }
+  };
+
+  const scopeQuery = function (this: Query<any, any>) {
+    if (getTenantBypass()) return;
+    this.where({ [field]: requireTenantId() });
+  };
+
+  const protectTenantField = function (this: Query<any, any>) {
+    if (getTenantBypass()) return;
+    const update = this.getUpdate() as Record<string, any> | null;
+    if (!update || Array.isArray(update)) return;
+    delete update[field];
+    ['$set', '$unset', '$setOnInsert', '$rename'].forEach((operator) => {
+      if (update[operator]) delete update[operator][field];
+    });
+  };
+
+  schema.statics.getTenantField = function () {
+    return field;
+  };
+
+  schema.statics.getCurrentTenantId = function () {
+    return getTenantBypass() ? undefined : getCurrentTenantId();
+  };
+
+  // For reads that bypass query middleware, such as change streams
+  schema.statics.getTenantFilter = function () {
+    if (getTenantBypass()) return {};
+    return { [field]: castTenantId() };
+  };
+
+  schema.pre<Document>('save', function (next) {
+    stampDocument(this, this.isNew);
+    next();
+  });
+
+  schema.pre('insertMany', function (next, docs: any[]) {
+    (Array.isArray(docs) ? docs : [docs]).forEach((doc) => stampDocument(doc, true));
+    next();
+  });
+
+  schema.pre(
+    [
+      'find',
+      'findOne',
+      'countDocuments',
+      'distinct',
+      'deleteOne',
+      'deleteMany',
+      'findOneAndDelete',
+      'findOneAndUpdate',
+      'findOneAndReplace',
+      'replaceOne',
+      'updateOne',
+      'updateMany',
+    ],
+    scopeQuery,
+  );
+
+  schema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], protectTenantField);
+
+  schema.pre('aggregate', function (next) {
+    if (getTenantBypass()) return next();
+    try {
+      this.pipeline().unshift({ $match: { [field]: castTenantId() } });
+      next();
+    } catch (error) {
+      next(error as Error);
+    }
+  });
+};
+
+export default tenantPlugin;
@@ -8,12 +8,21 @@ const versioningPlugin = (schema: Schema) => {
   schema.add({ __version__: { type: Number, default: 0 } });
 
   const incrementVersion = (update: any) => {
-    if (update) {
-      if (!update.$set) {
-        update.$set = {};
-      }
-      update.$set.__version__ = (update.$set.__version__ || 0) + 1;
+    if (!update) return;
+
+    if (Array.isArray(update)) {
+      update.push({
+        $set: { __version__: { $add: [{ $ifNull: ['$__version__', 0] }, 1] } },
+      });
+      return;
+    }
+
+    // The version is owned by the plugin, a client supplied value would conflict with $inc
+    delete update.__version__;
+    if (update.$set) {
+      delete update.$set.__version__;
     }
+    update.$inc = { ...update.$inc, __version__: 1 };
   };
 
   schema.pre<IVersionedDocument>('save', function (next) {
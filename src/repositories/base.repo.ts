@@ -1,3 +1,4 @@
+import { AsyncStorageService } from '@nodesandbox/async-storage';
 import {
   Model,
   Document,
@@ -6,8 +7,26 @@ import {
   QueryOptions,
   PipelineStage,
   Types,
+  ClientSession,
+  Cursor,
+  ModifyResult,
 } from 'mongoose';
-import { IBaseRepository } from '../types';
+import {
+  BulkUpsertOptions,
+  BulkUpsertReport,
+  ChangeEvent,
+  IBaseRepository,
+  UpsertResult,
+  VersionedQueryOptions,
+  WatchOptions,
+} from '../types';
+import { combineFilters, getCurrentSession, prefixFilterPaths } from '../utils';
+import { VersionConflictError } from '../errors';
+import { IHistoryDocument } from '../models/plugins/history.plugin';
+
+const ASYNC_STORAGE = AsyncStorageService.getInstance();
+
+const VERSION_METADATA_FIELDS = ['__version__', 'updatedAt', 'updatedBy'];
 
 export class BaseRepository<T extends Document> implements IBaseRepository<T> {
   protected model: Model<T>;
@@ -20,13 +39,39 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
     return this.model;
   }
 
+  protected getSession(options: QueryOptions = {}): ClientSession | undefined {
+    return options.session ?? getCurrentSession();
+  }
+
+  protected withSession(options: QueryOptions = {}): QueryOptions {
+    const session = this.getSession(options);
+    return session ? { ...options, session } : options;
+  }
+
+  // Tells the soft delete plugin not to hide deleted documents
+  protected withDeleted(options: QueryOptions, includeDeleted: boolean): QueryOptions {
+    return includeDeleted ? { ...options, includeDeleted } : options;
+  }
+
+  protected getSoftDeleteUpdate(): UpdateQuery<T> {
+    return {
+      $set: {
+        deletedAt: new Date(),
+        deletedBy: ASYNC_STORAGE.get('currentUserId') ?? null,
+      },
+    } as UpdateQuery<T>;
+  }
+
   async create(input: Partial<T>): Promise<T> {
     const document = new this.model(input);
-    return await document.save();
+    return await document.save({ session: this.getSession() });
   }
 
   async createMany(items: Partial<T>[], ordered = true): Promise<T[]> {
-    const result = await this.model.insertMany(items, { ordered }) as unknown as T[];
+    const result = await this.model.insertMany(items, {
+      ordered,
+      session: this.getSession(),
+    }) as unknown as T[];
     return result;
   }
 
@@ -35,21 +80,54 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
     options: QueryOptions = {},
     includeDeleted = false,
   ): Promise<T[]> {
+    const { projection, ...queryOptions } = options;
     const effectiveQuery = includeDeleted
       ? query
       : { ...query, deletedAt: null };
-    return await this.model.find(effectiveQuery, null, options).exec();
+    return await this.model
+      .find(
+        effectiveQuery,
+        projection ?? null,
+        this.withSession(this.withDeleted(queryOptions, includeDeleted)),
+      )
+      .exec();
   }
 
   async findById(
     id: string | Types.ObjectId,
     includeDeleted = false,
+    options: QueryOptions = {},
   ): Promise<T | null> {
+    const { projection, ...queryOptions } = options;
     const objectId = typeof id === 'string' ? new Types.ObjectId(id) : id;
     const query = includeDeleted
       ? { _id: objectId }
       : { _id: objectId, deletedAt: null };
-    return await this.model.findOne(query).exec();
+    return await this.model
+      .findOne(
+        query,
+        projection ?? null,
+        this.withSession(this.withDeleted(queryOptions, includeDeleted)),
+      )
+      .exec();
+  }
+
+  findCursor(
+    query: FilterQuery<T> = {},
+    options: QueryOptions = {},
+    includeDeleted = false,
+  ): Cursor<T, QueryOptions> {
+    const { projection, ...queryOptions } = options;
+    const effectiveQuery = includeDeleted
+      ? query
+      : { ...query, deletedAt: null };
+    return this.model
+      .find(
+        effectiveQuery,
+        projection ?? null,
+        this.withSession(this.withDeleted(queryOptions, includeDeleted)),
+      )
+      .cursor();
   }
 
   async findOne(
@@ -57,37 +135,136 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
     options: QueryOptions = {},
     includeDeleted = false,
   ): Promise<T | null> {
+    const { projection, ...queryOptions } = options;
     const effectiveQuery = includeDeleted
       ? query
       : { ...query, deletedAt: null };
-    return await this.model.findOne(effectiveQuery, null, options).exec();
+    return await this.model
+      .findOne(
+        effectiveQuery,
+        projection ?? null,
+        this.withSession(this.withDeleted(queryOptions, includeDeleted)),
+      )
+      .exec();
   }
 
   async update(
     query: FilterQuery<T>,
     update: UpdateQuery<T>,
-    options: QueryOptions = {},
+    options: VersionedQueryOptions = {},
     includeDeleted = false,
   ): Promise<T | null> {
+    const { expectedVersion, ...queryOptions } = options;
     const effectiveQuery = includeDeleted
       ? query
       : { ...query, deletedAt: null };
-    return await this.model
-      .findOneAndUpdate(effectiveQuery, update, { new: true, ...options })
+    const versionedQuery = expectedVersion === undefined
+      ? effectiveQuery
+      : { ...effectiveQuery, __version__: expectedVersion };
+
+    const updated = await this.model
+      .findOneAndUpdate(versionedQuery, update, {
+        new: true,
+        ...this.withSession(this.withDeleted(queryOptions, includeDeleted)),
+      })
       .exec();
+
+    if (!updated && expectedVersion !== undefined) {
+      const current = await this.model
+        .findOne(effectiveQuery, null, this.withSession(this.withDeleted({}, includeDeleted)))
+        .exec();
+      if (current) {
+        throw await this.createVersionConflictError(current, expectedVersion);
+      }
+    }
+
+    return updated;
   }
 
   async updateById(
     id: string | Types.ObjectId,
     update: UpdateQuery<T>,
-    options: QueryOptions = {},
+    options: VersionedQueryOptions = {},
   ): Promise<T | null> {
     const objectId = typeof id === 'string' ? new Types.ObjectId(id) : id;
+    const { expectedVersion, ...queryOptions } = options;
+
+    if (expectedVersion !== undefined) {
+      return await this.update(
+        { _id: objectId },
+        update,
+        { ...queryOptions, expectedVersion },
+      );
+    }
+
     return await this.model
-      .findByIdAndUpdate(objectId, update, { new: true, ...options })
+      .findByIdAndUpdate(objectId, update, {
+        new: true,
+        ...this.withSession(queryOptions),
+      })
       .exec();
   }
 
+  async createVersionConflictError(
+    document: T,
+    expectedVersion: number,
+  ): Promise<VersionConflictError> {
+    const currentVersion: number = document.get('__version__') ?? 0;
+    return new VersionConflictError(
+      currentVersion,
+      expectedVersion,
+      await this.getChangedFieldsSince(document, expectedVersion),
+    );
+  }
+
+  getHistoryModel(): Model<IHistoryDocument> | null {
+    const model = this.model as Model<T> & {
+      getHistoryModel?: () => Model<IHistoryDocument>;
+    };
+    return typeof model.getHistoryModel === 'function'
+      ? model.getHistoryModel()
+      : null;
+  }
+
+  async getChangedFieldsSince(document: T, version: number): Promise<string[]> {
+    const HistoryModel = this.getHistoryModel();
+    const missedVersions = (document.get('__version__') ?? 0) - version;
+    if (missedVersions <= 0 || !HistoryModel) {
+      return [];
+    }
+
+    // Every versioned write records one history entry, so the latest entries
+    // are the ones the caller has not seen.
+    const entries = await HistoryModel
+      .find({ originalId: document._id, action: { $ne: 'create' } })
+      .sort({ createdAt: -1 })
+      .limit(missedVersions)
+      .session(this.getSession() ?? null)
+      .exec();
+
+    const fields = new Set<string>();
+    entries.forEach((entry) => {
+      if (entry.diff?.length) {
+        entry.diff
+          .map((change) => change.path)
+          .filter((path) => !VERSION_METADATA_FIELDS.includes(path))
+          .forEach((path) => fields.add(path));
+        return;
+      }
+
+      Object.entries(entry.changes || {}).forEach(([key, value]) => {
+        const paths = key.startsWith('$') && value && typeof value === 'object'
+          ? Object.keys(value)
+          : [key];
+        paths
+          .filter((path) => !VERSION_METADATA_FIELDS.includes(path))
+          .forEach((path) => fields.add(path));
+      });
+    });
+
+    return Array.from(fields);
+  }
+
   async updateMany(
     filter: FilterQuery<T>,
     update: UpdateQuery<T>,
@@ -95,56 +272,117 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
     const result = await this.model.updateMany(
       { ...filter, deletedAt: null },
       update,
+      { session: this.getSession() },
     );
     return result.modifiedCount || 0;
   }
 
+  async upsert(
+    filter: FilterQuery<T>,
+    update: UpdateQuery<T>,
+    options: QueryOptions = {},
+  ): Promise<UpsertResult<T>> {
+    const run = async () =>
+      (await this.model
+        .findOneAndUpdate({ ...filter, deletedAt: null }, update, {
+          new: true,
+          upsert: true,
+          includeResultMetadata: true,
+          ...this.withSession(options),
+        })
+        .exec()) as unknown as ModifyResult<T>;
+
+    let result: ModifyResult<T>;
+    try {
+      result = await run();
+    } catch (error) {
+      // Concurrent upserts may both insert, the unique index rejects one of
+      // them, which matches the other's document when it is retried. Errors
+      // abort transactions, so these are left to the caller.
+      if ((error as { code?: unknown } | null)?.code !== 11000 || this.getSession(options)) {
+        throw error;
+      }
+      result = await run();
+    }
+
+    return {
+      document: result.value as T,
+      inserted: !result.lastErrorObject?.updatedExisting,
+    };
+  }
+
+  async bulkUpsert(
+    items: Partial<T>[],
+    { keyFields }: BulkUpsertOptions,
+  ): Promise<BulkUpsertReport<T>> {
+    const report: BulkUpsertReport<T> = { docs: [], inserted: [], modified: [] };
+
+    // Written one by one so that the model middleware runs for each document
+    for (const item of items) {
+      const filter = Object.fromEntries(
+        keyFields.map((field) => [field, (item as Record<string, unknown>)[field]]),
+      ) as FilterQuery<T>;
+      if (Object.values(filter).some((value) => value === undefined || value === null)) {
+        throw new Error(`Upserted items require a value for ${keyFields.join(', ')}.`);
+      }
+
+      const { document, inserted } = await this.upsert(filter, { $set: item } as UpdateQuery<T>);
+      report.docs.push(document);
+      (inserted ? report.inserted : report.modified).push(document._id as Types.ObjectId);
+    }
+
+    return report;
+  }
+
   async delete(
     query: FilterQuery<T>,
     options: QueryOptions = {},
     softDelete = true,
   ): Promise<T | null> {
     if (softDelete) {
-      return await this.update(
-        query,
-        { $set: { deletedAt: new Date() } } as UpdateQuery<T>,
-        options,
-        true,
-      );
+      return await this.update(query, this.getSoftDeleteUpdate(), options, true);
     } else {
-      return await this.model.findOneAndDelete(query, options).exec();
+      return await this.model
+        .findOneAndDelete(query, this.withSession(options))
+        .exec();
     }
   }
 
   async deleteById(
     id: string | Types.ObjectId,
     softDelete = true,
+    options: QueryOptions = {},
   ): Promise<T | null> {
     const objectId = typeof id === 'string' ? new Types.ObjectId(id) : id;
     if (softDelete) {
-      return await this.updateById(
-        objectId,
-        { $set: { deletedAt: new Date() } } as UpdateQuery<T>,
-      );
+      return await this.updateById(objectId, this.getSoftDeleteUpdate(), options);
     }
-    return await this.model.findByIdAndDelete(objectId).exec();
+    return await this.model
+      .findByIdAndDelete(objectId, this.withSession(options))
+      .exec();
   }
 
   async deleteMany(
     filter: FilterQuery<T>,
     softDelete = true,
+    options: QueryOptions = {},
   ): Promise<number> {
     if (softDelete) {
-      const result = await this.model.updateMany(filter, {
-        $set: { deletedAt: new Date() },
-      });
+      const result = await this.model
+        .updateMany(filter, this.getSoftDeleteUpdate())
+        .setOptions(this.withSession(options));
       return result.modifiedCount || 0;
     }
-    const result = await this.model.deleteMany(filter);
+    const result = await this.model
+      .deleteMany(filter)
+      .setOptions(this.withSession(options));
     return result.deletedCount || 0;
   }
 
-  async restore(query: FilterQuery<T>): Promise<T | null> {
+  async restore(
+    query: FilterQuery<T>,
+    options: QueryOptions = {},
+  ): Promise<T | null> {
     const deletedDoc = await this.findOne(
       { ...query, deletedAt: { $ne: null } },
       {},
@@ -158,12 +396,15 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
     return await this.update(
       { _id: deletedDoc._id },
       { $unset: { deletedAt: 1, deletedBy: 1 } },
-      { new: true },
+      { ...options, new: true },
       true
     );
   }
 
-  async restoreById(id: string | Types.ObjectId): Promise<T | null> {
+  async restoreById(
+    id: string | Types.ObjectId,
+    options: QueryOptions = {},
+  ): Promise<T | null> {
     const objectId = typeof id === 'string' ? new Types.ObjectId(id) : id;
   
     const deletedDoc = await this.findById(objectId, true);
@@ -175,18 +416,21 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
     return await this.update(
       { _id: objectId },
       { $unset: { deletedAt: 1, deletedBy: 1 } },
-      {},
+      options,
       true
     );
   }
 
   async restoreMany(
     filter: FilterQuery<T> = {},
+    options: QueryOptions = {},
   ): Promise<number> {
-    const result = await this.model.updateMany(
-      { ...filter, deletedAt: { $ne: null } },
-      { $unset: { deletedAt: 1 } }
-    );
+    const result = await this.model
+      .updateMany(
+        { ...filter, deletedAt: { $ne: null } },
+        { $unset: { deletedAt: 1, deletedBy: 1 } },
+      )
+      .setOptions(this.withSession(options));
     return result.modifiedCount || 0;
   }
 
@@ -209,7 +453,9 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
       ? query
       : { ...query, deletedAt: null };
     
-    const countQuery = this.model.countDocuments(effectiveQuery);
+    const countQuery = this.model
+      .countDocuments(effectiveQuery, { session: this.getSession() })
+      .setOptions(this.withDeleted({}, includeDeleted));
     
     if (options.limit !== undefined) {
       countQuery.limit(options.limit);
@@ -227,10 +473,154 @@ export class BaseRepository<T extends Document> implements IBaseRepository<T> {
     includeDeleted = false,
   ): Promise<boolean> {
     const query = includeDeleted ? filter : { ...filter, deletedAt: null };
-    return (await this.model.exists(query)) !== null;
+    return (
+      (await this.model
+        .exists(query)
+        .setOptions(this.withDeleted({}, includeDeleted))
+        .session(this.getSession() ?? null)) !==
+      null
+    );
   }
 
   async aggregate(pipeline: PipelineStage[]): Promise<any[]> {
-    return await this.model.aggregate(pipeline).exec();
+    return await this.model
+      .aggregate(pipeline)
+      .session(this.getSession() ?? null)
+      .exec();
+  }
+
+  /**
+   * Streams the changes of the documents matching `filter`. The resume token
+   * of an event is saved once the consumer asks for the next one, so a
+   * restarted consumer gets the last unfinished event again.
+   */
+  async *watch(
+    filter: FilterQuery<T> = {},
+    options: WatchOptions = {},
+  ): AsyncGenerator<ChangeEvent<T>> {
+    const {
+      includeDeleted = false,
+      ignoreDeletes = false,
+      resumeTokenStore,
+      resumeKey = this.model.modelName,
+      batchSize,
+    } = options;
+    const model = this.model as Model<T> & {
+      getTenantFilter?: () => FilterQuery<T>;
+    };
+
+    // Change streams run no query middleware, the tenant scope is added here
+    const scope = combineFilters(
+      this.model.find(filter).cast(),
+      model.getTenantFilter?.() ?? {},
+    );
+    const matchDeletes = !ignoreDeletes;
+    if (matchDeletes && Object.keys(scope).length && !(await this.hasPreImages())) {
+      throw new Error(
+        `Filtered change streams match deletes against pre-images, which are not enabled on the ${this.model.collection.collectionName} collection. Enable changeStreamPreAndPostImages or set ignoreDeletes.`,
+      );
+    }
+    const resumeAfter = options.resumeAfter ?? (await resumeTokenStore?.load(resumeKey));
+
+    const stream = this.model.collection.watch(
+      [
+        {
+          $match: {
+            $or: [
+              {
+                operationType: { $in: ['insert', 'update', 'replace'] },
+                ...prefixFilterPaths(scope, 'fullDocument'),
+              },
+              // Deleted documents can only be matched against their pre-image
+              ...(matchDeletes
+                ? [{
+                  operationType: 'delete',
+                  ...prefixFilterPaths(scope, 'fullDocumentBeforeChange'),
+                }]
+                : []),
+            ],
+          },
+        },
+      ],
+      {
+        fullDocument: 'updateLookup',
+        fullDocumentBeforeChange: 'whenAvailable',
+        ...(resumeAfter ? { resumeAfter } : {}),
+        ...(batchSize ? { batchSize } : {}),
+      },
+    );
+
+    try {
+      for await (const change of stream) {
+        const event = this.toChangeEvent(change, includeDeleted);
+        if (event) yield event;
+        await resumeTokenStore?.save(resumeKey, change._id);
+      }
+    } finally {
+      await stream.close();
+    }
+  }
+
+  private async hasPreImages(): Promise<boolean> {
+    const [collection] = await this.model.db.db!
+      .listCollections({ name: this.model.collection.collectionName })
+      .toArray();
+    return Boolean(
+      collection && 'options' in collection &&
+        collection.options?.changeStreamPreAndPostImages?.enabled,
+    );
+  }
+
+  protected toChangeEvent(
+    change: Record<string, any>,
+    includeDeleted: boolean,
+  ): ChangeEvent<T> | null {
+    const base = {
+      documentId: change.documentKey?._id,
+      resumeToken: change._id,
+      clusterTime: change.wallTime,
+    };
+    // Raw documents are hydrated so that plugins such as encryption apply
+    const hydrate = (doc?: Record<string, any> | null) =>
+      doc ? this.model.hydrate(doc) : null;
+
+    switch (change.operationType) {
+      case 'insert':
+      case 'replace':
+        if (!includeDeleted && change.fullDocument?.deletedAt) return null;
+        return {
+          ...base,
+          type: change.operationType,
+          document: hydrate(change.fullDocument),
+        };
+      case 'update': {
+        const { updatedFields = {}, removedFields = [] } = change.updateDescription ?? {};
+        let type: ChangeEvent<T>['type'] = 'update';
+        if ('deletedAt' in updatedFields) {
+          type = updatedFields.deletedAt ? 'softDelete' : 'restore';
+        } else if (removedFields.includes('deletedAt')) {
+          type = 'restore';
+        }
+        // Changes to documents in the trash are hidden like they are from reads
+        if (type === 'update' && !includeDeleted && change.fullDocument?.deletedAt) {
+          return null;
+        }
+        return {
+          ...base,
+          type,
+          document: hydrate(change.fullDocument),
+          updatedFields,
+          removedFields,
+        };
+      }
+      case 'delete':
+        return {
+          ...base,
+          type: 'delete',
+          document: hydrate(change.fullDocumentBeforeChange),
+        };
+      default:
+        return null;
+    }
   }
 }
\ No newline at end of file
@@ -1,11 +1,58 @@
 import {
   Document,
+  Error as MongooseError,
   FilterQuery,
+  Model,
+  QueryOptions,
   UpdateQuery,
   Types,
 } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
 import { BaseRepository } from '../repositories';
-import { escapeRegex, slugify } from '../utils';
+import { IHistoryDocument, resolveHistorySnapshot } from '../models/plugins/history.plugin';
+import { TRIGRAMS_FIELD } from '../models/plugins/fuzzy-search.plugin';
+import { MemoryCacheStore } from '../cache';
+import { EventBus, globalEventBus } from '../events';
+import {
+  buildCursorSort,
+  buildKeysetQuery,
+  buildTrigrams,
+  combineFilters,
+  applyFilterPolicy,
+  getFilterPolicy,
+  decodeCursor,
+  diffObjects,
+  encodeCursor,
+  FieldDiff,
+  coerceImportValue,
+  escapeRegex,
+  flattenObject,
+  forbidden,
+  fuzzySimilarity,
+  getCurrentSession,
+  getSchemaFieldPaths,
+  getSearchText,
+  getTenantBypass,
+  getTransactionContext,
+  getWrittenPaths,
+  isEqualValue,
+  isPathAllowed,
+  isPlainObject,
+  ImportSource,
+  omitPaths,
+  parseDelimitedRecords,
+  parseListQuery,
+  readSourceChunks,
+  readSourceLines,
+  resolveExportFields,
+  reverseSort,
+  runInTransactionContext,
+  runWithoutTenantScope,
+  setPathValue,
+  slugify,
+  toDelimitedLine,
+} from '../utils';
 
 import {
   ServiceConfig,
@@ -14,30 +61,190 @@ import {
   FilterConfig,
   SlugConfig,
   HooksConfig,
+  HookContext,
+  HookEvent,
+  HookHandlers,
+  HookOptions,
   ValidationConfig,
+  ValidationIssue,
+  ValidationMode,
   PopulateConfig,
   CacheConfig,
   AggregationConfig,
-  CacheEntry,
   MergedServiceConfig,
+  FindAllOptions,
+  FieldSelection,
+  ProjectionConfig,
+  AccessAction,
+  AccessContext,
+  AccessPolicy,
+  RelationConfig,
+  TrashListOptions,
+  PurgeReport,
+  ExportFormat,
+  ExportOptions,
+  ImportFormat,
+  ImportOptions,
+  ImportReport,
+  ImportRowError,
+  ImportRowResult,
+  TransactionContext,
+  UpsertResult,
+  BulkUpsertOptions,
+  BulkUpsertReport,
+  EventHandler,
+  ServiceEventMap,
+  ServiceEventMetadata,
+  ServiceEventName,
 } from '../types';
+import { AsyncStorageService } from '@nodesandbox/async-storage';
 import { LoggerService } from '@nodesandbox/logger';
 import { ErrorResponse, ErrorResponseType, SuccessResponseType } from '@nodesandbox/response-kit';
+import { HookAbortError, ValidationError } from '../errors';
 
 
 const Logger = LoggerService.getInstance();
+const AsyncStorage = AsyncStorageService.getInstance();
+
+const TEXT_SCORE_FIELD = 'textScore';
+
+type RegisteredHook = {
+  handler: (...args: any[]) => Promise<void> | void;
+  priority: number;
+  order: number;
+};
+
+const HOOK_ARGUMENTS: Record<HookEvent, (context: HookContext) => unknown[]> = {
+  beforeCreate: (context) => [context.input],
+  afterCreate: (context) => [context.document],
+  beforeUpdate: (context) => [context.original, context.input],
+  afterUpdate: (context) => [context.document],
+  beforeDelete: (context) => [context.original],
+  afterDelete: (context) => [context.document],
+  beforeRestore: (context) => [context.original],
+  afterRestore: (context) => [context.document],
+  beforeFind: (context) => [context.filter],
+  afterFind: (context) => [context.result],
+  beforeBulkCreate: (context) => [context.input],
+  afterBulkCreate: (context) => [context.result],
+  beforeBulkUpdate: (context) => [context.filter, context.input],
+  afterBulkUpdate: (context) => [context.result],
+  beforeBulkDelete: (context) => [context.filter],
+  afterBulkDelete: (context) => [context.result],
+  beforeBulkRestore: (context) => [context.filter],
+  afterBulkRestore: (context) => [context.result],
+};
+
+const MAX_LISTED_REFERENCES = 20;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const REVISION_SYSTEM_FIELDS = [
+  '_id',
+  '__v',
+  '__version__',
+  TRIGRAMS_FIELD,
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'updatedBy',
+  'deletedAt',
+  'deletedBy',
+];
 
 export class BaseService<T extends Document, R extends BaseRepository<T>> {
   protected readonly repository: R;
   protected readonly config: MergedServiceConfig<T>;
   protected readonly uniqueFields: Set<keyof T>;
-  private readonly cache: Map<string, CacheEntry<any>>;
+  protected readonly events: EventBus<ServiceEventMap<T>>;
+  private readonly pendingCacheReads: Map<string, Promise<any>>;
+  private cacheGeneration: number;
+  private readonly hookRegistry: Map<HookEvent, RegisteredHook[]>;
+  private hookSequence: number;
 
   constructor(repository: R, config: ServiceConfig<T> = {}) {
     this.repository = repository;
     this.config = this.mergeConfig(config);
+    if (Object.keys(this.config.search.weightedFields).length) {
+      Logger.warn(
+        'search.weightedFields is deprecated and ignored, set the weights with the textIndex schema option.',
+      );
+    }
     this.uniqueFields = this.detectUniqueFields();
-    this.cache = new Map();
+    this.events = new EventBus();
+    this.pendingCacheReads = new Map();
+    this.cacheGeneration = 0;
+    this.hookRegistry = new Map();
+    this.hookSequence = 0;
+
+    (Object.keys(this.config.hooks) as HookEvent[]).forEach((event) => {
+      [this.config.hooks[event]]
+        .flat()
+        .filter(Boolean)
+        .forEach((handler) => this.use(event, handler as HookHandlers<T>[HookEvent]));
+    });
+  }
+
+  on<K extends ServiceEventName>(
+    event: K,
+    handler: EventHandler<ServiceEventMap<T>[K]>,
+  ): () => void {
+    return this.events.on(event, handler);
+  }
+
+  once<K extends ServiceEventName>(
+    event: K,
+    handler: EventHandler<ServiceEventMap<T>[K]>,
+  ): () => void {
+    return this.events.once(event, handler);
+  }
+
+  off<K extends ServiceEventName>(
+    event: K,
+    handler: EventHandler<ServiceEventMap<T>[K]>,
+  ): void {
+    this.events.off(event, handler);
+  }
+
+  private getDocumentDiff(before: T | null, after: T | null): FieldDiff[] {
+    return diffObjects(
+      before?.toObject({ depopulate: true }) ?? {},
+      after?.toObject({ depopulate: true }) ?? {},
+    );
+  }
+
+  /**
+   * Publishes an event on the service bus and on the global bus. Handlers do
+   * not delay the operation, and inside a transaction they only run once it
+   * has been committed.
+   */
+  protected emitEvent<K extends ServiceEventName>(
+    event: K,
+    operation: string,
+    payload: Omit<ServiceEventMap<T>[K], keyof ServiceEventMetadata>,
+  ): void {
+    const eventPayload = {
+      ...payload,
+      modelName: this.repository.getModel().modelName,
+      operation,
+      user: AsyncStorage.get('currentUser'),
+      userId: AsyncStorage.get('currentUserId'),
+      timestamp: new Date(),
+    } as ServiceEventMap<T>[K];
+
+    const dispatch = async () => {
+      await Promise.all([
+        this.events.emit(event, eventPayload),
+        globalEventBus.emit(event, eventPayload as ServiceEventMap<Document>[K]),
+      ]);
+    };
+
+    const context = getTransactionContext();
+    if (context?.afterCommit) {
+      context.afterCommit.push(() => void dispatch());
+    } else {
+      void dispatch();
+    }
   }
 
   private mergeConfig(config: ServiceConfig<T>): MergedServiceConfig<T> {
@@ -49,9 +256,12 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
 
     const defaultSearch: SearchConfig<T> = {
       enabled: false,
+      mode: 'regex',
       fields: [],
       caseSensitive: false,
       fuzzySearch: false,
+      fuzzyThreshold: 0.6,
+      fuzzyCandidateLimit: 500,
       weightedFields: {},
     };
 
@@ -93,6 +303,7 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
       enabled: false,
       ttl: 300,
       ignoredFields: [],
+      maxEntries: 1000,
     };
 
     const defaultAggregation: AggregationConfig<T> = {
@@ -100,6 +311,10 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
       virtualFields: {},
     };
 
+    const defaultProjection: ProjectionConfig = {
+      forbiddenFields: [],
+    };
+
     return {
       pagination: { ...defaultPagination, ...config.pagination },
       search: {
@@ -139,6 +354,9 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         ...defaultCache,
         ...config.cache,
         ignoredFields: config.cache?.ignoredFields ?? defaultCache.ignoredFields,
+        store:
+          config.cache?.store ??
+          new MemoryCacheStore(config.cache?.maxEntries ?? defaultCache.maxEntries),
       },
       aggregation: {
         ...defaultAggregation,
@@ -146,7 +364,21 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         customPipelines: config.aggregation?.customPipelines ?? defaultAggregation.customPipelines,
         virtualFields: config.aggregation?.virtualFields ?? defaultAggregation.virtualFields,
       },
-      softDelete: config.softDelete ?? true
+      projection: {
+        ...defaultProjection,
+        ...config.projection,
+        forbiddenFields: config.projection?.forbiddenFields ?? defaultProjection.forbiddenFields,
+      },
+      access: config.access ?? {},
+      relations: config.relations ?? [],
+      softDelete:
+        typeof config.softDelete === 'object'
+          ? config.softDelete.enabled ?? true
+          : config.softDelete ?? true,
+      retentionDays:
+        typeof config.softDelete === 'object'
+          ? config.softDelete.retentionDays ?? null
+          : null,
     };
   }
 
@@ -168,7 +400,8 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     doc: Partial<T>,
     excludeId?: Types.ObjectId,
   ): Promise<void> {
-    const uniqueValidations = Array.from(this.uniqueFields).map(
+    await this.runEach(
+      Array.from(this.uniqueFields),
       async (field) => {
         if (!doc[field]) return;
 
@@ -189,8 +422,6 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         }
       },
     );
-
-    await Promise.all(uniqueValidations);
   }
 
   private async generateUniqueSlug(
@@ -233,58 +464,327 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     doc[targetField] = slug as T[keyof T];
   }
 
-  private async applyPopulation(doc: T): Promise<T> {
-    if (!this.config.populate.defaultPopulate || !this.config.populate.fields.length) {
+  private async assertExpectedVersion(
+    doc: T,
+    expectedVersion?: number,
+  ): Promise<void> {
+    if (expectedVersion === undefined) return;
+
+    if ((doc.get('__version__') ?? 0) !== expectedVersion) {
+      throw await this.repository.createVersionConflictError(doc, expectedVersion);
+    }
+  }
+
+  private getAccessPolicy(action: AccessAction): AccessPolicy<T> | undefined {
+    const rule = this.config.access[action];
+    return typeof rule === 'function' ? { allow: rule } : rule;
+  }
+
+  private getAccessContext(
+    action: AccessAction,
+    context: Pick<AccessContext<T>, 'document' | 'input'> = {},
+  ): AccessContext<T> {
+    return {
+      action,
+      user: AsyncStorage.get('currentUser'),
+      userId: AsyncStorage.get('currentUserId'),
+      ...context,
+    };
+  }
+
+  protected async authorize(
+    action: AccessAction,
+    context: Pick<AccessContext<T>, 'document' | 'input'> = {},
+  ): Promise<void> {
+    const policy = this.getAccessPolicy(action);
+    if (policy?.allow && !(await policy.allow(this.getAccessContext(action, context)))) {
+      throw forbidden(`You are not allowed to ${action} this resource.`);
+    }
+  }
+
+  // Checked on the input left by the before hooks, which is what gets written
+  protected async authorizeFields(
+    action: AccessAction,
+    context: Pick<AccessContext<T>, 'document' | 'input'>,
+  ): Promise<void> {
+    const policy = this.getAccessPolicy(action);
+    if (!policy?.writableFields || !context.input) return;
+
+    const writableFields = typeof policy.writableFields === 'function'
+      ? await policy.writableFields(this.getAccessContext(action, context))
+      : policy.writableFields;
+    const deniedFields = getWrittenPaths(context.input).filter(
+      (path) => !isPathAllowed(path, writableFields),
+    );
+
+    if (deniedFields.length) {
+      throw forbidden(
+        `You are not allowed to write: ${deniedFields.join(', ')}.`,
+        [`Writable fields: ${writableFields.join(', ')}.`],
+      );
+    }
+  }
+
+  // Row level constraint of an action, merged into the queries it runs
+  protected async getAccessFilter(action: AccessAction): Promise<FilterQuery<T>> {
+    const policy = this.getAccessPolicy(action);
+    if (!policy?.where) return {};
+    return (await policy.where(this.getAccessContext(action))) ?? {};
+  }
+
+  protected async scopeQuery(
+    action: AccessAction,
+    query: FilterQuery<T> = {},
+  ): Promise<FilterQuery<T>> {
+    return combineFilters(query, await this.getAccessFilter(action)) as FilterQuery<T>;
+  }
+
+  // Read results depend on the caller once a read policy is set
+  private getReadCacheScope(
+    accessFilter: FilterQuery<T>,
+  ): Record<string, any> | undefined {
+    if (!this.config.access.read) return undefined;
+    return { userId: AsyncStorage.get('currentUserId'), filter: accessFilter };
+  }
+
+  private async findAccessibleById(
+    action: AccessAction,
+    id: string | Types.ObjectId,
+    includeDeleted = false,
+  ): Promise<T | null> {
+    const accessFilter = await this.getAccessFilter(action);
+    return Object.keys(accessFilter).length
+      ? this.repository.findOne(
+        combineFilters({ _id: this.toObjectId(id) }, accessFilter) as FilterQuery<T>,
+        {},
+        includeDeleted,
+      )
+      : this.repository.findById(id, includeDeleted);
+  }
+
+  // Resolved through the repository so that tenant scoping applies even
+  // without access rules, trashed documents included
+  private async assertReadable(id: string | Types.ObjectId): Promise<void> {
+    const document = await this.findAccessibleById('read', id, true);
+    if (!document) {
+      throw new ErrorResponse({
+        code: 'NOT_FOUND_ERROR',
+        message: 'The requested document was not found.',
+      });
+    }
+    await this.authorize('read', { document });
+  }
+
+  private async applyPopulation(doc: T, paths?: string[]): Promise<T> {
+    const populateOptions = this.config.populate.fields
+      .map((field) => {
+        if (typeof field === 'string') {
+          return { path: field };
+        }
+
+        const { path, select, match, options } = field;
+        return { path, select, match, options };
+      })
+      .filter((field) => !paths || paths.includes(field.path));
+
+    if (!populateOptions.length) {
       return doc;
     }
+
+    return doc.populate(populateOptions);
+  }
   
-    const populateOptions = this.config.populate.fields.map((field) => {
-      if (typeof field === 'string') {
-        return { path: field };
+
+
+  private async runCustomValidators(doc: Partial<T>): Promise<ValidationIssue[]> {
+    const issues = await this.runEach(
+      Object.entries(this.config.validation.customValidators ?? {}),
+      async ([field, validator]): Promise<ValidationIssue | null> => {
+        const value = doc[field as keyof T];
+        if (value === undefined || !validator) return null;
+
+        const result = await validator(value, doc);
+        if (result !== false && typeof result !== 'string') return null;
+        return {
+          path: field,
+          code: 'INVALID_VALUE',
+          message:
+            typeof result === 'string' && result
+              ? result
+              : `Invalid value for ${field}.`,
+        };
+      },
+    );
+    return issues.filter((issue): issue is ValidationIssue => issue !== null);
+  }
+
+  private async runSchemaValidator(
+    doc: Partial<T>,
+    mode: ValidationMode,
+  ): Promise<ValidationIssue[]> {
+    const { schema } = this.config.validation;
+    if (!schema) return [];
+
+    const validator =
+      'validate' in schema ? schema : mode === 'create' ? schema.create : schema.update;
+    if (!validator) return [];
+
+    // Updates are checked on the values they set, fields managed by the
+    // framework are not part of the schema. Dotted paths are expanded, the
+    // objects they go through are only partly written.
+    const { $set = {}, $unset = {}, ...fields } = doc as Record<string, any>;
+    const input: Record<string, any> = {};
+    const partialPaths = new Set<string>();
+    Object.entries({ ...fields, ...$set }).forEach(([path, value]) => {
+      const keys = path.split('.');
+      // Array elements cannot be checked without the stored array
+      if (
+        path.startsWith('$') ||
+        REVISION_SYSTEM_FIELDS.includes(keys[0]) ||
+        keys.some((key) => key.startsWith('$') || /^\d+$/.test(key))
+      ) {
+        return;
       }
-  
-      const { path, select, match, options } = field;
-      return { path, select, match, options };
+      keys.slice(1).forEach((_, index) => partialPaths.add(keys.slice(0, index + 1).join('.')));
+      setPathValue(input, path, value);
+    });
+
+    return await validator.validate(input as Partial<T>, {
+      mode,
+      partial: mode === 'update',
+      partialPaths: Array.from(partialPaths),
+      unsetPaths: mode === 'update' ? Object.keys($unset) : [],
     });
-  
-    return doc.populate(populateOptions);
   }
-  
 
+  use<K extends HookEvent>(
+    event: K,
+    handler: HookHandlers<T>[K],
+    options: HookOptions = {},
+  ): () => void {
+    const hook: RegisteredHook = {
+      handler: handler as RegisteredHook['handler'],
+      priority: options.priority ?? 0,
+      order: this.hookSequence++,
+    };
+    // Higher priorities run first, hooks of equal priority in registration order
+    const hooks = [...(this.hookRegistry.get(event) ?? []), hook].sort(
+      (a, b) => b.priority - a.priority || a.order - b.order,
+    );
+    this.hookRegistry.set(event, hooks);
 
-  private async runCustomValidators(doc: Partial<T>): Promise<void> {
-    if (this.config.validation.customValidators) {
-      const validations = Object.entries(
-        this.config.validation.customValidators,
-      ).map(async ([field, validator]) => {
-        const fieldKey = field as keyof T;
-        if (doc[fieldKey] !== undefined) {
-          const isValid = await validator(doc[fieldKey], doc);
-          if (!isValid) {
-            throw new ErrorResponse({
-              code: 'VALIDATION_ERROR',
-              message: `Validation failed for field ${field}.`,
-              suggestions: [`Invalid value for ${field}.`],
-            });
-          }
-        }
-      });
-      await Promise.all(validations);
-    }
+    return () => {
+      this.hookRegistry.set(
+        event,
+        (this.hookRegistry.get(event) ?? []).filter((registered) => registered !== hook),
+      );
+    };
+  }
+
+  protected createHookContext(
+    operation: string,
+    values: Partial<Omit<HookContext<T>, 'operation' | 'abort'>> = {},
+  ): HookContext<T> {
+    return {
+      operation,
+      session: getCurrentSession(),
+      user: AsyncStorage.get('currentUser'),
+      userId: AsyncStorage.get('currentUserId'),
+      state: {},
+      ...values,
+      abort: (message, options) => {
+        throw new HookAbortError(message, options);
+      },
+    };
   }
 
+  /**
+   * Runs the hooks of an event one after the other. Their arguments are read
+   * from the context on each call, so a hook sees the input as replaced or
+   * mutated by the previous ones.
+   */
   private async executeHook(
-    hookName: keyof HooksConfig<T>,
-    doc: any,
-    updateData?: any,
+    event: HookEvent,
+    context: HookContext<T>,
   ): Promise<void> {
-    const hook = this.config.hooks[hookName];
-    if (hook) {
-      if (updateData) {
-        await (hook as (doc: any, updateData: any) => Promise<void>)(doc, updateData);
-      } else {
-        await (hook as (doc: any) => Promise<void>)(doc);
+    for (const { handler } of this.hookRegistry.get(event) ?? []) {
+      await handler(...HOOK_ARGUMENTS[event](context), context);
+    }
+  }
+
+  protected async runInTransaction<R>(
+    fn: (tx: TransactionContext) => Promise<R>,
+  ): Promise<R> {
+    const execute = async (context: TransactionContext): Promise<R> => {
+      const result = await fn(context);
+      const response = result as Partial<ErrorResponseType> | null;
+      if (response?.success === false) {
+        throw response.error;
       }
+      return result;
+    };
+
+    const currentContext = getTransactionContext();
+    if (currentContext) {
+      return execute(currentContext);
+    }
+
+    const session = await this.repository.getModel().db.startSession();
+    try {
+      let result!: R;
+      let context!: TransactionContext;
+      // A context is created per attempt, callbacks of aborted attempts are dropped
+      await session.withTransaction(async () => {
+        context = { session, afterCommit: [] };
+        result = await runInTransactionContext(context, () => execute(context));
+      });
+      // Cache invalidations are done before the result is returned
+      await Promise.all((context.afterCommit ?? []).map((callback) => callback()));
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  private async runSequentially<I, R>(
+    items: I[],
+    fn: (item: I) => Promise<R>,
+  ): Promise<R[]> {
+    const results: R[] = [];
+    for (const item of items) {
+      results.push(await fn(item));
+    }
+    return results;
+  }
+
+  // A session does not support concurrent operations, work done inside a
+  // transaction runs one item at a time
+  private async runEach<I, R>(
+    items: I[],
+    fn: (item: I) => Promise<R>,
+  ): Promise<R[]> {
+    return getCurrentSession()
+      ? this.runSequentially(items, fn)
+      : Promise.all(items.map(fn));
+  }
+
+  async withTransaction<R>(
+    fn: (tx: TransactionContext) => Promise<R>,
+  ): Promise<R | ErrorResponseType> {
+    try {
+      return await this.runInTransaction(fn);
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+              code: 'TRANSACTION_ERROR',
+              message: (error as Error).message,
+              originalError: error as Error,
+            }),
+      };
     }
   }
 
@@ -292,12 +792,56 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     return { [field]: { $regex: regex } } as FilterQuery<T>;
   }
 
+  private isFuzzySearch(searchTerm?: string): boolean {
+    return (
+      Boolean(searchTerm) &&
+      this.config.search.enabled &&
+      this.config.search.fuzzySearch
+    );
+  }
+
+  private isTextSearch(searchTerm?: string): boolean {
+    return (
+      Boolean(searchTerm) &&
+      this.config.search.enabled &&
+      this.config.search.mode === 'text'
+    );
+  }
+
+  private hasTextIndex(): boolean {
+    return this.repository
+      .getModel()
+      .schema.indexes()
+      .some(([fields]) => Object.values(fields).includes('text'));
+  }
+
   private buildSearchQuery(searchTerm?: string): FilterQuery<T> {
-    if (
-      !searchTerm ||
-      !this.config.search.enabled ||
-      !this.config.search.fields.length
-    ) {
+    if (!searchTerm || !this.config.search.enabled) {
+      return {};
+    }
+
+    if (this.config.search.mode === 'text') {
+      if (!this.hasTextIndex()) {
+        throw new ErrorResponse({
+          code: 'OPERATION_NOT_SUPPORTED',
+          message: 'Text search requires a text index on the model.',
+          suggestions: [
+            'Pass the searchable fields as "textIndex" to createBaseSchema.',
+          ],
+        });
+      }
+
+      const { caseSensitive, language } = this.config.search;
+      return {
+        $text: {
+          $search: searchTerm,
+          $caseSensitive: caseSensitive,
+          ...(language && { $language: language }),
+        },
+      } as FilterQuery<T>;
+    }
+
+    if (!this.config.search.fields.length) {
       return {};
     }
 
@@ -314,54 +858,187 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
   }
 
   private filterAllowedFields(query: Record<string, any>): FilterQuery<T> {
-    if (!this.config.filter.allowedFields.length) return query;
+    const { customFilters } = this.config.filter;
+    const customFragments: FilterQuery<T>[] = [];
+    const clientQuery: Record<string, any> = {};
+
+    Object.entries(query).forEach(([key, value]) => {
+      if (customFilters[key]) {
+        customFragments.push(customFilters[key](value));
+      } else {
+        clientQuery[key] = value;
+      }
+    });
 
-    const allowedFieldsSet = new Set(
-      this.config.filter.allowedFields.map((field) => field as string)
+    const filteredQuery = applyFilterPolicy(
+      clientQuery,
+      getFilterPolicy(this.config.filter.allowedFields),
     );
 
-    const filteredQuery = Object.entries(query).reduce((acc, [key, value]) => {
-      if (allowedFieldsSet.has(key)) {
-        acc[key] = value;
-      }
-      return acc;
-    }, {} as Record<string, any>);
+    return combineFilters(filteredQuery, ...customFragments) as FilterQuery<T>;
+  }
+
+  protected getCacheTag(suffix?: string): string {
+    const namespace = this.repository.getModel().modelName;
+    return suffix ? `${namespace}:${suffix}` : namespace;
+  }
+
+  protected getDocumentCacheTag(id: unknown): string {
+    return this.getCacheTag(`doc:${String(id)}`);
+  }
 
-    return filteredQuery as FilterQuery<T>;
+  private normalizeCacheParams(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.normalizeCacheParams(item));
+    }
+    if (value instanceof RegExp) {
+      return value.toString();
+    }
+    if (value && typeof value === 'object' && value.constructor === Object) {
+      const ignoredFields = new Set(this.config.cache.ignoredFields);
+      return Object.keys(value)
+        .filter((key) => !ignoredFields.has(key))
+        .sort()
+        .reduce((acc, key) => {
+          acc[key] = this.normalizeCacheParams(value[key]);
+          return acc;
+        }, {} as Record<string, any>);
+    }
+    return value;
   }
 
   protected getCacheKey(method: string, params: any): string {
-    return `${method}:${JSON.stringify(params)}`;
+    // Tenant scoped models return different results for the same parameters
+    const model = this.repository.getModel() as Model<T> & {
+      getCurrentTenantId?: () => unknown;
+    };
+    const tenantId = model.getCurrentTenantId?.();
+    const scope = tenantId === undefined || tenantId === null ? '' : `:${tenantId}`;
+    return `${this.getCacheTag()}${scope}:${method}:${JSON.stringify(
+      this.normalizeCacheParams(params ?? {}),
+    )}`;
   }
 
   protected async getCachedData<R>(
     key: string,
     getter: () => Promise<R>,
+    tags: string[] | ((data: R) => string[]) = [],
   ): Promise<R> {
-    if (!this.config.cache.enabled) {
+    // Reads inside a transaction may see uncommitted data and must not be shared
+    if (!this.config.cache.enabled || getCurrentSession()) {
       return getter();
     }
 
-    const cached = this.cache.get(key);
-    if (cached && Date.now() - cached.timestamp < this.config.cache.ttl * 1000) {
-      return cached.data;
+    const store = this.config.cache.store;
+    const cached = await store.get<R>(key);
+    if (cached !== undefined) {
+      return this.copyCachedValue(cached);
+    }
+
+    const pending = this.pendingCacheReads.get(key);
+    if (pending) {
+      return this.copyCachedValue(await pending);
+    }
+
+    const generation = this.cacheGeneration;
+    const read = (async () => {
+      const data = await getter();
+      // The data may predate an invalidation that happened during the read
+      if (generation === this.cacheGeneration) {
+        const dataTags = typeof tags === 'function' ? tags(data) : tags;
+        await store.set(key, data, {
+          ttl: this.config.cache.ttl,
+          tags: [this.getCacheTag(), ...dataTags],
+        });
+      }
+      return data;
+    })();
+
+    this.pendingCacheReads.set(key, read);
+    try {
+      return this.copyCachedValue(await read);
+    } finally {
+      if (this.pendingCacheReads.get(key) === read) {
+        this.pendingCacheReads.delete(key);
+      }
+    }
+  }
+
+  // Cached values are shared by every reader, so each read gets its own copy
+  // that callers and afterFind hooks can change freely
+  private copyCachedValue<V>(value: V): V {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.copyCachedValue(item)) as V;
+    }
+    if (value instanceof Document) {
+      return value.$clone() as V;
+    }
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.copyCachedValue(item)]),
+      ) as V;
+    }
+    return value;
+  }
+
+  private async invalidateTags(tags: string[]): Promise<void> {
+    this.cacheGeneration++;
+    this.pendingCacheReads.clear();
+    await this.config.cache.store.invalidateTags(tags);
+  }
+
+  protected async invalidateCache(ids?: unknown[]): Promise<void> {
+    if (!this.config.cache.enabled) return;
+
+    const tags = ids
+      ? [this.getCacheTag('list'), ...ids.map((id) => this.getDocumentCacheTag(id))]
+      : [this.getCacheTag()];
+
+    const invalidate = async () => {
+      try {
+        await this.invalidateTags(tags);
+      } catch (error) {
+        Logger.warn(`Cache invalidation failed: ${(error as Error).message}`);
+      }
+    };
+
+    // Until the commit, other requests still read and may cache the old data
+    const context = getTransactionContext();
+    if (context?.afterCommit) {
+      context.afterCommit.push(invalidate);
+      return;
     }
+    await invalidate();
+  }
 
-    const data = await getter();
-    this.cache.set(key, { data, timestamp: Date.now() });
-    return data;
+  private getResponseCacheTags(response: any): string[] {
+    const docs = response?.data?.docs;
+    const documents = Array.isArray(docs) ? docs : docs ? [docs] : [];
+    return [
+      this.getCacheTag('list'),
+      ...documents.map((doc: any) => this.getDocumentCacheTag(doc._id)),
+    ];
   }
 
   async clearCache(): Promise<void> {
-    this.cache.clear();
+    await this.invalidateTags([this.getCacheTag()]);
   }
 
-  protected async validateDocument(doc: Partial<T>): Promise<void> {
+  protected async validateDocument(
+    doc: Partial<T>,
+    mode: ValidationMode = 'create',
+  ): Promise<void> {
     if (this.config.validation.preValidate) {
       await this.config.validation.preValidate(doc);
     }
 
-    await this.runCustomValidators(doc);
+    const issues = [
+      ...(await this.runSchemaValidator(doc, mode)),
+      ...(await this.runCustomValidators(doc)),
+    ];
+    if (issues.length) {
+      throw new ValidationError(issues);
+    }
 
     if (this.config.validation.postValidate) {
       await this.config.validation.postValidate(doc);
@@ -379,15 +1056,24 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     input: Partial<T>,
   ): Promise<SuccessResponseType<T> | ErrorResponseType> {
     try {
-      await this.executeHook('beforeCreate', input);
+      await this.authorize('create', { input });
+
+      const context = this.createHookContext('create', { input });
+      await this.executeHook('beforeCreate', context);
+      input = context.input;
+      await this.authorizeFields('create', { input });
 
       await this.validateUniqueFields(input);
       await this.validateDocument(input);
       await this.generateUniqueSlug(input);
 
       const document = await this.repository.create(input);
+      await this.invalidateCache([document._id]);
 
-      await this.executeHook('afterCreate', document);
+      context.document = document;
+      context.diff = this.getDocumentDiff(null, document);
+      await this.executeHook('afterCreate', context);
+      this.emitEvent('created', 'create', { document, diff: context.diff });
 
       const populatedDoc = this.config.populate.defaultPopulate
       ? await this.applyPopulation(document)
@@ -396,7 +1082,7 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
       return {
         success: true,
         data: {
-          docs: populatedDoc,
+          docs: this.hideForbiddenFields(populatedDoc),
         },
       };
     } catch (error) {
@@ -414,6 +1100,14 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     }
   }
 
+  /**
+   * Parses an HTTP query string into `findAll` options, coercing filter
+   * values with the schema of the service model.
+   */
+  parseListQuery(rawQuery: Record<string, unknown> = {}): FindAllOptions {
+    return parseListQuery(rawQuery, this.config, this.repository.getModel().schema);
+  }
+
   async findAll({
     query = {},
     sort,
@@ -423,24 +1117,32 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     paginate = true,
     includeDeleted = false,
     populate = this.config.populate.defaultPopulate,
-  }: {
-    query?: Record<string, any>;
-    sort?: Record<string, 1 | -1>;
-    page?: number;
-    limit?: number;
-    searchTerm?: string;
-    paginate?: boolean;
-    includeDeleted?: boolean;
-    populate?: boolean;
-  } = {}): Promise<SuccessResponseType<T> | ErrorResponseType> {
+    pagination = 'offset',
+    after,
+    before,
+    select,
+  }: FindAllOptions = {}): Promise<SuccessResponseType<T> | ErrorResponseType> {
     try {
-      const cacheKey = this.getCacheKey('findAll', arguments[0]);
-      return this.getCachedData(cacheKey, async () => {
-        const finalQuery = {
-          ...this.filterAllowedFields(query),
-          ...this.buildSearchQuery(searchTerm),
-        };
-        const finalSort = sort || this.config.filter.defaultSort;
+      await this.authorize('read');
+      const context = this.createHookContext('findAll', { filter: query });
+      await this.executeHook('beforeFind', context);
+
+      const projection = this.resolveProjection(select);
+      const accessFilter = await this.getAccessFilter('read');
+      const cacheKey = this.getCacheKey('findAll', {
+        ...arguments[0],
+        query: context.filter,
+        select: projection,
+        access: this.getReadCacheScope(accessFilter),
+      });
+      const response = await this.getCachedData(cacheKey, async () => {
+        const fuzzySearch = this.isFuzzySearch(searchTerm);
+        const finalQuery = combineFilters(
+          this.filterAllowedFields(context.filter ?? {}),
+          accessFilter,
+          fuzzySearch ? {} : this.buildSearchQuery(searchTerm),
+        ) as FilterQuery<T>;
+        const textSearch = !fuzzySearch && this.isTextSearch(searchTerm);
         const finalPage = Math.max(
           1,
           page ?? this.config.pagination.defaultPage,
@@ -451,8 +1153,57 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
           limit ?? this.config.pagination.defaultLimit,
         );
 
+        if (fuzzySearch) {
+          if (pagination === 'cursor') {
+            throw new ErrorResponse({
+              code: 'INVALID_CURSOR',
+              message: 'Fuzzy search results cannot be paginated with cursors.',
+              statusCode: 400,
+            });
+          }
+
+          return this.findAllFuzzy(searchTerm!, finalQuery, {
+            page: finalPage,
+            limit: finalLimit,
+            paginate,
+            includeDeleted,
+            populate,
+            select: projection,
+          });
+        }
+
+        if (pagination === 'cursor') {
+          if (sort && TEXT_SCORE_FIELD in sort) {
+            throw new ErrorResponse({
+              code: 'INVALID_CURSOR',
+              message: 'Sorting by relevance is not supported with cursor pagination.',
+              statusCode: 400,
+            });
+          }
+
+          return this.findAllWithCursor(
+            finalQuery,
+            sort || this.config.filter.defaultSort,
+            finalLimit,
+            {
+              after,
+              before,
+              includeDeleted,
+              populate,
+              select: projection,
+              textScore: textSearch,
+            },
+          );
+        }
+
         const options = {
-          sort: finalSort,
+          sort: this.resolveSort(sort, textSearch),
+          ...((projection || textSearch) && {
+            projection: {
+              ...projection,
+              ...(textSearch && { [TEXT_SCORE_FIELD]: { $meta: 'textScore' } }),
+            },
+          }),
           ...(paginate && {
             skip: (finalPage - 1) * finalLimit,
             limit: finalLimit,
@@ -461,11 +1212,15 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
 
         const [documents, total] = await Promise.all([
           this.repository.findAll(finalQuery, options, includeDeleted),
-          this.repository.countDocuments({},{}, includeDeleted),
+          this.repository.countDocuments(accessFilter, {}, includeDeleted),
         ]);
 
         const populatedDocs = populate
-        ? await Promise.all(documents.map((doc) => this.applyPopulation(doc)))
+        ? await Promise.all(
+          documents.map((doc) =>
+            this.applyPopulation(doc, Array.isArray(populate) ? populate : undefined),
+          ),
+        )
         : documents;
 
         const results = await this.repository.countDocuments(
@@ -493,10 +1248,16 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
             }),
           },
           data: {
-            docs: populatedDocs,
+            docs: this.hideForbiddenFields(populatedDocs),
           },
         };
-      });
+      }, (result) => this.getResponseCacheTags(result));
+
+      if (response.success) {
+        context.result = response.data.docs;
+        await this.executeHook('afterFind', context);
+      }
+      return response;
     } catch (error) {
       return {
         success: false,
@@ -508,36 +1269,398 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     }
   }
 
-  async findOne(
-    query: FilterQuery<T>,
-    populate = this.config.populate.defaultPopulate,
-    includeDeleted = false,
-  ): Promise<SuccessResponseType<T> | ErrorResponseType> {
-    try {
-      const cacheKey = this.getCacheKey('findOne', arguments[0]);
-      return this.getCachedData(cacheKey, async () => {
-        const document = await this.repository.findOne(
-          query,
-          {},
-          includeDeleted,
-        );
+  // Text searches are ordered by relevance unless another sort is requested
+  private resolveSort(
+    sort: Record<string, 1 | -1> | undefined,
+    textSearch: boolean,
+  ): Record<string, any> {
+    const baseSort = sort ?? (
+      textSearch
+        ? { [TEXT_SCORE_FIELD]: -1, ...this.config.filter.defaultSort }
+        : this.config.filter.defaultSort
+    );
 
-        if (!document) {
-          throw new ErrorResponse({
-            code:'NOT_FOUND_ERROR',
-            message:'The requested document was not found.',
-          });
-        }
+    return Object.entries(baseSort).reduce((acc, [field, direction]) => {
+      if (field !== TEXT_SCORE_FIELD) {
+        acc[field] = direction;
+      } else if (textSearch) {
+        acc[field] = { $meta: 'textScore' };
+      }
+      return acc;
+    }, {} as Record<string, any>);
+  }
 
-        const populatedDoc = populate ? await this.applyPopulation(document) : document;
+  protected resolveProjection(select?: FieldSelection): FieldSelection | undefined {
+    const { defaultSelect, forbiddenFields } = this.config.projection;
+    const projection = select ?? defaultSelect;
 
-        return {
-          success: true,
-          data: {
-            docs: populatedDoc,
-          },
-        };
+    const isInclusive = projection
+      ? Object.entries(projection).some(([field, value]) => field !== '_id' && value === 1)
+      : false;
+
+    if (isInclusive) {
+      return Object.fromEntries(
+        Object.entries(projection!).filter(([field]) => !forbiddenFields.includes(field)),
+      ) as FieldSelection;
+    }
+
+    if (!projection && !forbiddenFields.length) {
+      return undefined;
+    }
+
+    return {
+      ...projection,
+      ...Object.fromEntries(forbiddenFields.map((field) => [field, 0])),
+    } as FieldSelection;
+  }
+
+  private withCursorFields(
+    select: FieldSelection,
+    sort: Record<string, 1 | -1>,
+  ): FieldSelection {
+    const isInclusive = Object.values(select).some((value) => value === 1);
+    if (!isInclusive) {
+      return Object.fromEntries(
+        Object.entries(select).filter(([field]) => !(field in sort)),
+      ) as FieldSelection;
+    }
+    return {
+      ...select,
+      ...Object.fromEntries(Object.keys(sort).map((field) => [field, 1])),
+    } as FieldSelection;
+  }
+
+  // Every returned document goes through here, so forbidden fields are hidden
+  // even when the document was not read with a projection. Documents shared
+  // with hooks and events are copied rather than modified.
+  protected hideForbiddenFields<D>(value: D): D {
+    const { forbiddenFields } = this.config.projection;
+    if (!forbiddenFields.length || !value) return value;
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.hideForbiddenFields(item)) as D;
+    }
+
+    if (value instanceof Document) {
+      const present = forbiddenFields.filter((field) => value.get(field) !== undefined);
+      if (!present.length) return value;
+      const copy = value.$clone();
+      present.forEach((field) => {
+        copy.set(field, undefined);
+        copy.unmarkModified(field);
+      });
+      return copy as D;
+    }
+
+    return isPlainObject(value) ? omitPaths(value, forbiddenFields) as D : value;
+  }
+
+  private hideForbiddenRevisionFields<
+    E extends Partial<Pick<IHistoryDocument, 'changes' | 'diff' | 'snapshot'>>,
+  >(entry: E): E {
+    const { forbiddenFields } = this.config.projection;
+    if (!forbiddenFields.length) return entry;
+
+    return {
+      ...entry,
+      changes: entry.changes && omitPaths(entry.changes, forbiddenFields),
+      diff: entry.diff?.filter(({ path }) => !isPathAllowed(path, forbiddenFields)),
+      snapshot: entry.snapshot && omitPaths(entry.snapshot, forbiddenFields),
+    };
+  }
+
+  // Candidates sharing the most trigrams with the term are scored by edit
+  // distance, results are then ordered by similarity
+  private async findAllFuzzy(
+    searchTerm: string,
+    query: FilterQuery<T>,
+    options: {
+      page: number;
+      limit: number;
+      paginate: boolean;
+      includeDeleted: boolean;
+      populate: boolean | string[];
+      select?: FieldSelection;
+    },
+  ): Promise<SuccessResponseType<T>> {
+    const model = this.repository.getModel();
+    if (!model.schema.path(TRIGRAMS_FIELD)) {
+      throw new ErrorResponse({
+        code: 'OPERATION_NOT_SUPPORTED',
+        message: 'Fuzzy search requires the fuzzy search plugin on the model.',
+        suggestions: [
+          'Pass the searchable fields as "fuzzySearch" to createBaseSchema.',
+        ],
+      });
+    }
+
+    const { fuzzyThreshold, fuzzyCandidateLimit } = this.config.search;
+    // Candidates are found by the trigrams of the plugin fields, they are
+    // scored against the same fields
+    const searchFields = (
+      model as Model<T> & { getFuzzySearchFields?: () => string[] }
+    ).getFuzzySearchFields?.() ?? this.config.search.fields.map(String);
+    const trigrams = buildTrigrams(searchTerm);
+
+    // Aggregations skip query casting, the filter is cast up front
+    const candidateQuery = model
+      .find(
+        combineFilters(
+          query,
+          options.includeDeleted ? {} : { deletedAt: null },
+          { [TRIGRAMS_FIELD]: { $in: trigrams } },
+        ),
+      )
+      .cast();
+
+    const candidates = trigrams.length
+      ? await this.repository.aggregate([
+        { $match: candidateQuery },
+        {
+          $project: {
+            ...Object.fromEntries(searchFields.map((field) => [field, 1])),
+            overlap: {
+              $size: { $setIntersection: [`$${TRIGRAMS_FIELD}`, trigrams] },
+            },
+          },
+        },
+        { $sort: { overlap: -1, _id: 1 } },
+        { $limit: fuzzyCandidateLimit },
+      ])
+      : [];
+
+    const matches = candidates
+      .map((candidate) => ({
+        _id: candidate._id,
+        similarity: Math.max(
+          0,
+          ...searchFields.map((field) =>
+            fuzzySimilarity(searchTerm, getSearchText(candidate, [field])),
+          ),
+        ),
+      }))
+      .filter((match) => match.similarity >= fuzzyThreshold)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const pageMatches = options.paginate
+      ? matches.slice((options.page - 1) * options.limit, options.page * options.limit)
+      : matches;
+    const similarityById = new Map(
+      pageMatches.map((match) => [String(match._id), match.similarity]),
+    );
+
+    const readScope = await this.scopeQuery('read');
+    const [fetched, total] = await Promise.all([
+      pageMatches.length
+        ? this.repository.findAll(
+          { _id: { $in: pageMatches.map((match) => match._id) } } as FilterQuery<T>,
+          options.select ? { projection: options.select } : {},
+          options.includeDeleted,
+        )
+        : Promise.resolve([] as T[]),
+      this.repository.countDocuments(readScope, {}, options.includeDeleted),
+    ]);
+
+    const documents = fetched
+      .sort(
+        (a, b) =>
+          similarityById.get(String(b._id))! - similarityById.get(String(a._id))!,
+      )
+      .map((doc) => {
+        doc.set('similarity', similarityById.get(String(doc._id)), { strict: false });
+        return doc;
+      });
+
+    const populatedDocs = options.populate
+      ? await Promise.all(
+        documents.map((doc) =>
+          this.applyPopulation(
+            doc,
+            Array.isArray(options.populate) ? options.populate : undefined,
+          ),
+        ),
+      )
+      : documents;
+
+    const results = matches.length;
+    const remaining = results - options.page * options.limit;
+
+    return {
+      success: true,
+      meta: {
+        total,
+        results,
+        ...(options.paginate && {
+          page: options.page,
+          limit: options.limit,
+          totalPages: Math.ceil(results / options.limit),
+          remainingItems: remaining > 0 ? remaining : 0,
+          pageItemsCount: documents.length,
+        }),
+      },
+      data: {
+        docs: this.hideForbiddenFields(populatedDocs),
+      },
+    };
+  }
+
+  private async findAllWithCursor(
+    query: FilterQuery<T>,
+    sort: Record<string, 1 | -1>,
+    limit: number,
+    options: {
+      after?: string;
+      before?: string;
+      includeDeleted: boolean;
+      populate: boolean | string[];
+      select?: FieldSelection;
+      textScore?: boolean;
+    },
+  ): Promise<SuccessResponseType<T>> {
+    if (options.after && options.before) {
+      throw new ErrorResponse({
+        code: 'INVALID_CURSOR',
+        message: 'The "after" and "before" cursors cannot be used together.',
+        statusCode: 400,
+      });
+    }
+
+    const cursorSort = buildCursorSort(sort);
+    const direction = options.before ? 'before' : 'after';
+    const cursor = options.before ?? options.after;
+
+    let keysetQuery: FilterQuery<T> = {};
+    if (cursor) {
+      try {
+        keysetQuery = buildKeysetQuery(
+          cursorSort,
+          decodeCursor(cursor, cursorSort),
+          direction,
+        );
+      } catch (error) {
+        throw new ErrorResponse({
+          code: 'INVALID_CURSOR',
+          message: (error as Error).message,
+          statusCode: 400,
+        });
+      }
+    }
+
+    const pageQuery = cursor ? { $and: [query, keysetQuery] } : query;
+
+    const readScope = await this.scopeQuery('read');
+    const [fetched, total, results] = await Promise.all([
+      this.repository.findAll(
+        pageQuery,
+        {
+          sort: direction === 'before' ? reverseSort(cursorSort) : cursorSort,
+          limit: limit + 1,
+          ...((options.select || options.textScore) && {
+            projection: {
+              ...(options.select && this.withCursorFields(options.select, cursorSort)),
+              ...(options.textScore && { [TEXT_SCORE_FIELD]: { $meta: 'textScore' } }),
+            },
+          }),
+        },
+        options.includeDeleted,
+      ),
+      this.repository.countDocuments(readScope, {}, options.includeDeleted),
+      this.repository.countDocuments(query, {}, options.includeDeleted),
+    ]);
+
+    const hasMore = fetched.length > limit;
+    const documents = fetched.slice(0, limit);
+    if (direction === 'before') {
+      documents.reverse();
+    }
+
+    const toCursor = (doc?: T) =>
+      doc ? encodeCursor(cursorSort, (field) => doc.get(field)) : null;
+    const first = documents[0];
+    const last = documents[documents.length - 1];
+
+    const nextCursor =
+      direction === 'after' ? (hasMore ? toCursor(last) : null) : toCursor(last);
+    const prevCursor =
+      direction === 'before'
+        ? hasMore ? toCursor(first) : null
+        : cursor ? toCursor(first) : null;
+
+    const populatedDocs = options.populate
+      ? await Promise.all(
+        documents.map((doc) =>
+          this.applyPopulation(
+            doc,
+            Array.isArray(options.populate) ? options.populate : undefined,
+          ),
+        ),
+      )
+      : documents;
+
+    return {
+      success: true,
+      meta: {
+        total,
+        results,
+        limit,
+        nextCursor,
+        prevCursor,
+        pageItemsCount: documents.length,
+      },
+      data: {
+        docs: this.hideForbiddenFields(populatedDocs),
+      },
+    };
+  }
+
+  async findOne(
+    query: FilterQuery<T>,
+    populate = this.config.populate.defaultPopulate,
+    includeDeleted = false,
+    select?: FieldSelection,
+  ): Promise<SuccessResponseType<T> | ErrorResponseType> {
+    try {
+      const context = this.createHookContext('findOne', { filter: query });
+      await this.executeHook('beforeFind', context);
+
+      const projection = this.resolveProjection(select);
+      const accessFilter = await this.getAccessFilter('read');
+      const cacheKey = this.getCacheKey('findOne', {
+        query: context.filter,
+        populate,
+        includeDeleted,
+        select: projection,
+        access: this.getReadCacheScope(accessFilter),
       });
+      const response = await this.getCachedData(cacheKey, async () => {
+        const document = await this.repository.findOne(
+          combineFilters(context.filter ?? {}, accessFilter) as FilterQuery<T>,
+          projection ? { projection } : {},
+          includeDeleted,
+        );
+
+        if (!document) {
+          throw new ErrorResponse({
+            code:'NOT_FOUND_ERROR',
+            message:'The requested document was not found.',
+          });
+        }
+
+        await this.authorize('read', { document });
+
+        const populatedDoc = populate ? await this.applyPopulation(document) : document;
+
+        return {
+          success: true,
+          data: {
+            docs: this.hideForbiddenFields(populatedDoc),
+          },
+        };
+      }, (result) => this.getResponseCacheTags(result));
+
+      context.result = response.data.docs;
+      await this.executeHook('afterFind', context);
+      return response;
     } catch (error) {
       return {
         success: false,
@@ -553,10 +1676,12 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     query: FilterQuery<T>,
     updateInput: UpdateQuery<T>,
     includeDeleted = false,
+    options: { expectedVersion?: number } = {},
   ): Promise<SuccessResponseType<T> | ErrorResponseType> {
     try {
+      const scopedQuery = await this.scopeQuery('update', query);
       const documentToUpdate = await this.repository.findOne(
-        query,
+        scopedQuery,
         {},
         includeDeleted,
       );
@@ -568,13 +1693,29 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         });
       }
 
-      await this.executeHook('beforeUpdate', documentToUpdate, updateInput);
+      await this.authorize('update', {
+        document: documentToUpdate,
+        input: updateInput,
+      });
+
+      await this.assertExpectedVersion(documentToUpdate, options.expectedVersion);
+
+      const context = this.createHookContext('update', {
+        input: updateInput,
+        original: documentToUpdate,
+      });
+      await this.executeHook('beforeUpdate', context);
+      updateInput = context.input;
+      await this.authorizeFields('update', {
+        document: documentToUpdate,
+        input: updateInput,
+      });
 
       await this.validateUniqueFields(
         updateInput as Partial<T>,
         documentToUpdate._id as Types.ObjectId,
       );
-      await this.validateDocument(updateInput as Partial<T>);
+      await this.validateDocument(updateInput as Partial<T>, 'update');
 
       if (
         this.config.slug.enabled &&
@@ -588,9 +1729,9 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
       }
 
       const updatedDocument = await this.repository.update(
-        query,
+        scopedQuery,
         updateInput,
-        {},
+        { expectedVersion: options.expectedVersion },
         includeDeleted,
       );
 
@@ -601,7 +1742,15 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         });
       }
 
-      await this.executeHook('afterUpdate', updatedDocument);
+      await this.invalidateCache([updatedDocument._id]);
+
+      context.document = updatedDocument;
+      context.diff = this.getDocumentDiff(documentToUpdate, updatedDocument);
+      await this.executeHook('afterUpdate', context);
+      this.emitEvent('updated', 'update', {
+        document: updatedDocument,
+        diff: context.diff,
+      });
 
       const populatedDoc = this.config.populate.defaultPopulate
       ? await this.applyPopulation(updatedDocument)
@@ -610,7 +1759,7 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
       return {
         success: true,
         data: {
-          docs: populatedDoc,
+          docs: this.hideForbiddenFields(populatedDoc),
         },
       };
     } catch (error) {
@@ -627,11 +1776,260 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     }
   }
 
+  private getRelationModel(relation: RelationConfig): Model<any> {
+    return typeof relation.model === 'string'
+      ? this.repository.getModel().db.model(relation.model)
+      : relation.model;
+  }
+
+  private getOperationOptions(operationId?: string): QueryOptions {
+    return operationId ? { historyMetadata: { operationId } } : {};
+  }
+
+  // Hard deletes reach the children that are already soft deleted as well
+  private async findRelatedIds(
+    model: Model<any>,
+    filter: Record<string, any>,
+    includeDeleted: boolean,
+  ): Promise<Types.ObjectId[]> {
+    const session = getCurrentSession();
+    const documents = includeDeleted
+      ? await model.collection.find(filter, { projection: { _id: 1 }, session }).toArray()
+      : await model.find(filter).select('_id').session(session ?? null).lean();
+    return documents.map((doc) => doc._id as Types.ObjectId);
+  }
+
+  private async collectBlockingReferences(
+    parentIds: Types.ObjectId[],
+    softDelete: boolean,
+    relations: RelationConfig[],
+  ): Promise<string[]> {
+    const blocking: string[] = [];
+    for (const relation of relations) {
+      const model = this.getRelationModel(relation);
+      const filter = { [relation.foreignKey]: { $in: parentIds } };
+
+      if (relation.onDelete === 'restrict') {
+        const references = await model
+          .find(filter)
+          .select('_id')
+          .limit(MAX_LISTED_REFERENCES)
+          .session(getCurrentSession() ?? null)
+          .lean();
+        blocking.push(
+          ...references.map((ref) => `${model.modelName} ${ref._id} (${relation.foreignKey})`),
+        );
+      } else if (relation.onDelete === 'cascade' && relation.relations?.length) {
+        const childIds = await this.findRelatedIds(model, filter, !softDelete);
+        if (childIds.length) {
+          blocking.push(
+            ...(await this.collectBlockingReferences(childIds, softDelete, relation.relations)),
+          );
+        }
+      }
+    }
+    return blocking;
+  }
+
+  /**
+   * Fails when live documents of a `restrict` relation reference the
+   * documents to delete, or any document their cascades would reach.
+   */
+  private async assertNoBlockingReferences(
+    parentIds: Types.ObjectId[],
+    softDelete: boolean,
+  ): Promise<void> {
+    if (!this.config.relations.length) return;
+
+    const blocking = await this.collectBlockingReferences(
+      parentIds,
+      softDelete,
+      this.config.relations,
+    );
+    if (blocking.length) {
+      throw new ErrorResponse({
+        code: 'REFERENCE_CONSTRAINT',
+        message: 'The document is still referenced by other documents.',
+        statusCode: 409,
+        suggestions: [
+          'Delete or reassign the referencing documents first.',
+          ...blocking,
+        ],
+      });
+    }
+  }
+
+  private async groupByDeletionDate(
+    model: Model<any>,
+    ids: Types.ObjectId[],
+  ): Promise<Array<[Date, Types.ObjectId[]]>> {
+    const documents = await model.collection
+      .find(
+        { _id: { $in: ids }, deletedAt: { $ne: null } },
+        { projection: { deletedAt: 1 }, session: getCurrentSession() },
+      )
+      .toArray();
+
+    const groups = new Map<number, Types.ObjectId[]>();
+    documents.forEach((doc) => {
+      const time = new Date(doc.deletedAt).getTime();
+      groups.set(time, [...(groups.get(time) ?? []), doc._id as Types.ObjectId]);
+    });
+    return Array.from(groups, ([time, groupIds]) => [new Date(time), groupIds]);
+  }
+
+  /**
+   * Applies the relations of deleted documents. Soft deleted children take
+   * the deletion date of their parent, which is how a restore tells the
+   * documents of a cascade from the ones deleted on their own.
+   */
+  private async deleteRelated(
+    parentModel: Model<any>,
+    parentIds: Types.ObjectId[],
+    softDelete: boolean,
+    operationId: string,
+    relations: RelationConfig[] = this.config.relations,
+  ): Promise<void> {
+    if (!relations.length || !parentIds.length) return;
+
+    const options = { ...this.getOperationOptions(operationId), session: getCurrentSession() };
+    const deletionDates = softDelete
+      ? await this.groupByDeletionDate(parentModel, parentIds)
+      : [];
+
+    for (const relation of relations) {
+      const model = this.getRelationModel(relation);
+      const filter = { [relation.foreignKey]: { $in: parentIds } };
+
+      // Soft deleted parents can be restored, their references are kept
+      if (relation.onDelete === 'setNull' && !softDelete) {
+        await model
+          .updateMany(filter, { $set: { [relation.foreignKey]: null } })
+          .setOptions(options);
+      }
+      if (relation.onDelete !== 'cascade') continue;
+
+      if (!softDelete) {
+        const childIds = await this.findRelatedIds(model, filter, true);
+        if (!childIds.length) continue;
+        await this.deleteRelated(model, childIds, false, operationId, relation.relations);
+        await model.deleteMany({ _id: { $in: childIds } }).setOptions(options);
+        continue;
+      }
+
+      for (const [deletedAt, ids] of deletionDates) {
+        const childIds = await this.findRelatedIds(
+          model,
+          { [relation.foreignKey]: { $in: ids } },
+          false,
+        );
+        if (!childIds.length) continue;
+        await model
+          .updateMany(
+            { _id: { $in: childIds }, deletedAt: null },
+            { $set: { deletedAt, deletedBy: AsyncStorage.get('currentUserId') ?? null } },
+          )
+          .setOptions(options);
+        await this.deleteRelated(model, childIds, true, operationId, relation.relations);
+      }
+    }
+  }
+
+  private async restoreRelated(
+    deletionDates: Array<[Date, Types.ObjectId[]]>,
+    operationId: string,
+    relations: RelationConfig[] = this.config.relations,
+  ): Promise<void> {
+    const session = getCurrentSession();
+    const options = { ...this.getOperationOptions(operationId), session };
+
+    for (const relation of relations.filter(({ onDelete }) => onDelete === 'cascade')) {
+      const model = this.getRelationModel(relation);
+
+      for (const [deletedAt, ids] of deletionDates) {
+        const children = await model.collection
+          .find(
+            { [relation.foreignKey]: { $in: ids }, deletedAt },
+            { projection: { _id: 1 }, session },
+          )
+          .toArray();
+        if (!children.length) continue;
+
+        const childIds = children.map((doc) => doc._id as Types.ObjectId);
+        await model
+          .updateMany(
+            { _id: { $in: childIds }, deletedAt },
+            { $unset: { deletedAt: 1, deletedBy: 1 } },
+          )
+          .setOptions(options);
+        await this.restoreRelated([[deletedAt, childIds]], operationId, relation.relations);
+      }
+    }
+  }
+
+  // A cascade writes to several collections, it is applied in a transaction
+  private runCascade<R>(fn: () => Promise<R>): Promise<R> {
+    return this.config.relations.length ? this.runInTransaction(fn) : fn();
+  }
+
+  private async deleteManyWithRelations(
+    filter: FilterQuery<T>,
+    softDelete: boolean,
+  ): Promise<number> {
+    if (!this.config.relations.length) {
+      return this.repository.deleteMany(filter, softDelete);
+    }
+
+    return this.runCascade(async () => {
+      const ids = (
+        await this.repository.findAll(filter, { projection: { _id: 1 } }, !softDelete)
+      ).map((doc) => doc._id as Types.ObjectId);
+      if (!ids.length) return 0;
+
+      await this.assertNoBlockingReferences(ids, softDelete);
+      const operationId = randomUUID();
+      const deleted = await this.repository.deleteMany(
+        { _id: { $in: ids } } as FilterQuery<T>,
+        softDelete,
+        this.getOperationOptions(operationId),
+      );
+      await this.deleteRelated(this.repository.getModel(), ids, softDelete, operationId);
+      return deleted;
+    });
+  }
+
+  private async restoreManyWithRelations(filter: FilterQuery<T>): Promise<number> {
+    if (!this.config.relations.length) {
+      return this.repository.restoreMany(filter);
+    }
+
+    return this.runCascade(async () => {
+      const ids = (
+        await this.repository.findAll(
+          { ...filter, deletedAt: { $ne: null } },
+          { projection: { _id: 1 } },
+          true,
+        )
+      ).map((doc) => doc._id as Types.ObjectId);
+      if (!ids.length) return 0;
+
+      const deletionDates = await this.groupByDeletionDate(this.repository.getModel(), ids);
+      const operationId = randomUUID();
+      const restored = await this.repository.restoreMany(
+        { _id: { $in: ids } } as FilterQuery<T>,
+        this.getOperationOptions(operationId),
+      );
+      await this.restoreRelated(deletionDates, operationId);
+      return restored;
+    });
+  }
+
   async delete(
     query: FilterQuery<T>,
   ): Promise<SuccessResponseType<T> | ErrorResponseType> {
     try {
-      const documentToDelete = await this.repository.findOne(query);
+      const scopedQuery = await this.scopeQuery('delete', query);
+      const documentToDelete = await this.repository.findOne(scopedQuery);
 
       if (!documentToDelete) {
         throw new ErrorResponse({
@@ -640,28 +2038,55 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         });
       }
 
-      await this.executeHook('beforeDelete', documentToDelete);
+      await this.authorize('delete', { document: documentToDelete });
 
-      const deletedDocument = await this.repository.delete(
-        query,
-        {},
-        this.config.softDelete,
-      );
+      const context = this.createHookContext('delete', { original: documentToDelete });
+      await this.executeHook('beforeDelete', context);
 
-      if (!deletedDocument) {
-        throw new ErrorResponse({
-          code: 'NOT_FOUND_ERROR',
-          message: this.config.softDelete ? 'Document to soft delete not found.' : 'Document to delete not found.',
-        });
-      }
+      const documentId = documentToDelete._id as Types.ObjectId;
+      const deletedDocument = await this.runCascade(async () => {
+        await this.assertNoBlockingReferences([documentId], this.config.softDelete);
+        const operationId = this.config.relations.length ? randomUUID() : undefined;
 
-      await this.executeHook('afterDelete', deletedDocument);
+        const deleted = await this.repository.delete(
+          { _id: documentId } as FilterQuery<T>,
+          this.getOperationOptions(operationId),
+          this.config.softDelete,
+        );
+
+        if (!deleted) {
+          throw new ErrorResponse({
+            code: 'NOT_FOUND_ERROR',
+            message: this.config.softDelete ? 'Document to soft delete not found.' : 'Document to delete not found.',
+          });
+        }
+
+        if (operationId) {
+          await this.deleteRelated(
+            this.repository.getModel(),
+            [documentId],
+            this.config.softDelete,
+            operationId,
+          );
+        }
+        return deleted;
+      });
+      await this.invalidateCache([deletedDocument._id]);
+
+      context.document = deletedDocument;
+      context.diff = this.getDocumentDiff(documentToDelete, deletedDocument);
+      await this.executeHook('afterDelete', context);
+      this.emitEvent('deleted', 'delete', {
+        document: deletedDocument,
+        diff: context.diff,
+        softDelete: this.config.softDelete,
+      });
 
       const populatedDoc = this.config.populate.defaultPopulate
       ? await this.applyPopulation(deletedDocument)
       : deletedDocument;
 
-      return { success: true, data: { docs: populatedDoc } };
+      return { success: true, data: { docs: this.hideForbiddenFields(populatedDoc) } };
     } catch (error) {
       return {
         success: false,
@@ -676,37 +2101,88 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     }
   }
 
+  private async runBeforeBulkCreate(
+    operation: string,
+    documents: Partial<T>[],
+  ): Promise<{ bulkContext: HookContext<T>; contexts: HookContext<T>[] }> {
+    const bulkContext = this.createHookContext(operation, { input: documents });
+    await this.executeHook('beforeBulkCreate', bulkContext);
+
+    const contexts = await this.runEach(
+      bulkContext.input as Partial<T>[],
+      async (input) => {
+        const context = this.createHookContext(operation, { input });
+        await this.executeHook('beforeCreate', context);
+        await this.authorizeFields('create', { input: context.input });
+        return context;
+      },
+    );
+    return { bulkContext, contexts };
+  }
+
+  private async runAfterBulkCreate(
+    bulkContext: HookContext<T>,
+    contexts: HookContext<T>[],
+    createdDocs: T[],
+  ): Promise<void> {
+    // Unordered inserts may skip documents, contexts can then not be matched
+    const matched = createdDocs.length === contexts.length;
+
+    await this.runEach(
+      createdDocs.map((document, index) => ({ document, index })),
+      async ({ document, index }) => {
+        const context = matched
+          ? contexts[index]
+          : this.createHookContext(bulkContext.operation);
+        context.document = document;
+        context.diff = this.getDocumentDiff(null, document);
+        await this.executeHook('afterCreate', context);
+        this.emitEvent('created', bulkContext.operation, {
+          document,
+          diff: context.diff,
+        });
+      },
+    );
+
+    bulkContext.result = createdDocs;
+    await this.executeHook('afterBulkCreate', bulkContext);
+  }
+
   async bulkCreate(
     documents: Partial<T>[],
     options: { skipValidation?: boolean; ordered?: boolean } = {},
   ): Promise<SuccessResponseType<T[]> | ErrorResponseType> {
     try {
+      await Promise.all(
+        documents.map((doc) => this.authorize('create', { input: doc })),
+      );
+
+      const { bulkContext, contexts } = await this.runBeforeBulkCreate(
+        'bulkCreate',
+        documents,
+      );
+      documents = contexts.map((context) => context.input);
+
       if (!options.skipValidation) {
-        await Promise.all(
-          documents.map(async (doc) => {
-            await this.executeHook('beforeCreate', doc);
-            await this.validateUniqueFields(doc);
-            await this.validateDocument(doc);
-            await this.generateUniqueSlug(doc);
-          }),
-        );
+        await this.runEach(documents, async (doc) => {
+          await this.validateUniqueFields(doc);
+          await this.validateDocument(doc);
+          await this.generateUniqueSlug(doc);
+        });
       }
 
       const createdDocs = await this.repository.createMany(
         documents,
         options.ordered ?? true
       );
+      await this.invalidateCache(createdDocs.map((doc) => doc._id));
 
-      await Promise.all(
-        createdDocs.map(async (doc) => {
-          await this.executeHook('afterCreate', doc);
-        }),
-      );
+      await this.runAfterBulkCreate(bulkContext, contexts, createdDocs);
 
       return {
         success: true,
         data: {
-          docs: createdDocs,
+          docs: this.hideForbiddenFields(createdDocs),
         },
       };
     } catch (error) {
@@ -729,16 +2205,29 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     options: { validateEach?: boolean } = {},
   ): Promise<SuccessResponseType<{ modified: number }> | ErrorResponseType> {
     try {
+      await this.authorize('update', { input: update });
+      const context = this.createHookContext('bulkUpdate', { filter, input: update });
+      await this.executeHook('beforeBulkUpdate', context);
+      update = context.input;
+      await this.authorizeFields('update', { input: update });
+      const scopedFilter = await this.scopeQuery('update', context.filter);
+
       if (options.validateEach) {
-        const docs = await this.repository.findAll(filter);
-        await Promise.all(
-          docs.map((doc) =>
-            this.validateDocument({ ...doc.toObject(), ...update }),
-          ),
+        const docs = await this.repository.findAll(scopedFilter);
+        await this.runEach(docs, (doc) =>
+          this.validateDocument({ ...doc.toObject(), ...update }, 'update'),
         );
       }
 
-      const modified = await this.repository.updateMany(filter, update);
+      const modified = await this.repository.updateMany(scopedFilter, update);
+      await this.invalidateCache();
+      context.result = modified;
+      await this.executeHook('afterBulkUpdate', context);
+      this.emitEvent('bulkUpdated', 'bulkUpdate', {
+        filter: scopedFilter,
+        update,
+        count: modified,
+      });
       return {
         success: true,
         data: {
@@ -756,53 +2245,306 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     }
   }
 
-  async restore(
-    query: FilterQuery<T>,
-  ): Promise<SuccessResponseType<T> | ErrorResponseType> {
-    if (!this.config.softDelete) {
-      return {
-        success: false,
-        error: new ErrorResponse({
-          code: 'OPERATION_NOT_SUPPORTED',
-          message: 'Soft delete is not enabled for this service.',
-        }),
-      };
-    }
+  /**
+   * Updates the document matching the filter, or creates it from the
+   * equality conditions of the filter and the data. An insert rejected by a
+   * unique field, because another upsert created the document in the
+   * meantime, is retried once as an update.
+   */
+  private async upsertDocument(
+    operation: string,
+    filter: FilterQuery<T>,
+    data: Partial<T>,
+    options: { skipValidation?: boolean },
+    retry = true,
+  ): Promise<UpsertResult<T>> {
+    const scopedFilter = await this.scopeQuery('update', filter);
+    const existing = await this.repository.findOne(scopedFilter);
 
     try {
-      const restoredDoc = await this.repository.restore(query);
-      if (!restoredDoc) {
-        throw new ErrorResponse({
-          code: 'NOT_FOUND_ERROR',
-          message: 'Document not found in deleted state.',
+      if (existing) {
+        const existingId = existing._id as Types.ObjectId;
+        await this.authorize('update', { document: existing, input: data });
+        const context = this.createHookContext(operation, {
+          input: data,
+          original: existing,
+          filter,
         });
+        await this.executeHook('beforeUpdate', context);
+        const input = context.input as Partial<T>;
+        await this.authorizeFields('update', { document: existing, input });
+
+        if (!options.skipValidation) {
+          await this.validateUniqueFields(input, existingId);
+          await this.validateDocument(input, 'update');
+          if (
+            this.config.slug.enabled &&
+            this.config.slug.sourceField in input &&
+            input[this.config.slug.sourceField] !== existing[this.config.slug.sourceField]
+          ) {
+            await this.generateUniqueSlug(input, existingId);
+          }
+        }
+
+        const document = await this.repository.update(
+          { _id: existingId } as FilterQuery<T>,
+          input,
+        );
+        if (!document) {
+          // Deleted since it was read, it is inserted again instead
+          if (retry) {
+            return this.upsertDocument(operation, filter, data, options, false);
+          }
+          throw new ErrorResponse({
+            code: 'NOT_FOUND_ERROR',
+            message: 'Document to update not found.',
+          });
+        }
+
+        context.document = document;
+        context.diff = this.getDocumentDiff(existing, document);
+        await this.executeHook('afterUpdate', context);
+        this.emitEvent('updated', operation, { document, diff: context.diff });
+        return { document, inserted: false };
       }
 
-      const populatedDoc = this.config.populate.defaultPopulate
-      ? await this.applyPopulation(restoredDoc)
-      : restoredDoc;
+      const filterValues = Object.fromEntries(
+        Object.entries(filter).filter(
+          ([key, value]) =>
+            !key.startsWith('$') &&
+            !(
+              value &&
+              typeof value === 'object' &&
+              !Array.isArray(value) &&
+              Object.keys(value).some((operator) => operator.startsWith('$'))
+            ),
+        ),
+      );
+      const createInput = { ...filterValues, ...data } as Partial<T>;
+      await this.authorize('create', { input: createInput });
+      const context = this.createHookContext(operation, { input: createInput, filter });
+      await this.executeHook('beforeCreate', context);
+      const input = context.input as Partial<T>;
+      await this.authorizeFields('create', { input });
 
-      return { success: true, data: { docs: populatedDoc } };
-    } catch (error) {
-      return {
-        success: false,
-        error:
-          error instanceof ErrorResponse
-            ? error
-            : new ErrorResponse({
-              code: 'RESTORE_ERROR',
-              message: (error as Error).message,
-            }),
-      };
-    }
-  }
+      if (!options.skipValidation) {
+        await this.validateUniqueFields(input);
+        await this.validateDocument(input);
+        await this.generateUniqueSlug(input);
+      }
 
-  async clone(
-    id: string,
+      // The insert only happens if the filter still matches nothing, a document
+      // created in the meantime is left as is and updated through the hooks above
+      const { document, inserted } = await this.repository.upsert(scopedFilter, {
+        $setOnInsert: input,
+      } as UpdateQuery<T>);
+      if (!inserted) {
+        if (retry) {
+          return this.upsertDocument(operation, filter, data, options, false);
+        }
+        throw new ErrorResponse({
+          code: 'UPSERT_CONFLICT',
+          message: 'Document was created concurrently, try again.',
+          statusCode: 409,
+        });
+      }
+
+      context.document = document;
+      context.diff = this.getDocumentDiff(null, document);
+      await this.executeHook('afterCreate', context);
+      this.emitEvent('created', operation, { document, diff: context.diff });
+      return { document, inserted: true };
+    } catch (error) {
+      // A document created since the read fails the unique field check
+      const { code } = (error ?? {}) as { code?: unknown };
+      if (retry && !existing && code === 'UNIQUE_FIELD_ERROR') {
+        return this.upsertDocument(operation, filter, data, options, false);
+      }
+      throw error;
+    }
+  }
+
+  async upsert(
+    filter: FilterQuery<T>,
+    data: Partial<T>,
+    options: { skipValidation?: boolean } = {},
+  ): Promise<SuccessResponseType<T> | ErrorResponseType> {
+    try {
+      const { document, inserted } = await this.upsertDocument(
+        'upsert',
+        filter,
+        data,
+        options,
+      );
+      await this.invalidateCache([document._id]);
+
+      const populatedDoc = this.config.populate.defaultPopulate
+      ? await this.applyPopulation(document)
+      : document;
+
+      return {
+        success: true,
+        data: {
+          docs: this.hideForbiddenFields(populatedDoc),
+          inserted,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+              code: 'UPSERT_ERROR',
+              message: (error as Error).message,
+            }),
+      };
+    }
+  }
+
+  async bulkUpsert(
+    items: Partial<T>[],
+    options: BulkUpsertOptions & { skipValidation?: boolean; transaction?: boolean },
+  ): Promise<SuccessResponseType<BulkUpsertReport<T>> | ErrorResponseType> {
+    try {
+      const { keyFields } = options;
+      const entries = items.map((item, index) => {
+        const filter = Object.fromEntries(
+          keyFields.map((field) => [field, (item as Record<string, unknown>)[field]]),
+        ) as FilterQuery<T>;
+        if (Object.values(filter).some((value) => value === undefined || value === null)) {
+          throw new ErrorResponse({
+            code: 'MISSING_UPSERT_KEY',
+            message: `Item ${index + 1} has no value for ${keyFields.join(', ')}.`,
+            statusCode: 400,
+          });
+        }
+        return { filter, item };
+      });
+
+      // Sequential, so that items sharing a key update the same document
+      const upsertAll = () =>
+        this.runSequentially(entries, ({ filter, item }) =>
+          this.upsertDocument('bulkUpsert', filter, item, options),
+        );
+      const results = options.transaction
+        ? await this.runInTransaction(upsertAll)
+        : await upsertAll();
+      await this.invalidateCache(results.map(({ document }) => document._id));
+
+      const report: BulkUpsertReport<T> = { docs: [], inserted: [], modified: [] };
+      results.forEach(({ document, inserted }) => {
+        report.docs.push(this.hideForbiddenFields(document));
+        (inserted ? report.inserted : report.modified).push(document._id as Types.ObjectId);
+      });
+
+      return { success: true, data: report };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+              code: 'BULK_UPSERT_ERROR',
+              message: (error as Error).message,
+            }),
+      };
+    }
+  }
+
+  async restore(
+    query: FilterQuery<T>,
+  ): Promise<SuccessResponseType<T> | ErrorResponseType> {
+    if (!this.config.softDelete) {
+      return {
+        success: false,
+        error: new ErrorResponse({
+          code: 'OPERATION_NOT_SUPPORTED',
+          message: 'Soft delete is not enabled for this service.',
+        }),
+      };
+    }
+
+    try {
+      const scopedQuery = await this.scopeQuery('restore', query);
+
+      const documentToRestore = await this.repository.findOne(
+        { ...scopedQuery, deletedAt: { $ne: null } },
+        {},
+        true,
+      );
+      if (!documentToRestore) {
+        throw new ErrorResponse({
+          code: 'NOT_FOUND_ERROR',
+          message: 'Document not found in deleted state.',
+        });
+      }
+      await this.authorize('restore', { document: documentToRestore });
+
+      const context = this.createHookContext('restore', { original: documentToRestore });
+      await this.executeHook('beforeRestore', context);
+
+      const restoredDoc = await this.runCascade(async () => {
+        const operationId = this.config.relations.length ? randomUUID() : undefined;
+        const restored = await this.repository.restore(
+          { _id: documentToRestore._id } as FilterQuery<T>,
+          this.getOperationOptions(operationId),
+        );
+        if (!restored) {
+          throw new ErrorResponse({
+            code: 'NOT_FOUND_ERROR',
+            message: 'Document not found in deleted state.',
+          });
+        }
+        if (operationId) {
+          await this.restoreRelated(
+            [[
+              documentToRestore.get('deletedAt') as Date,
+              [documentToRestore._id as Types.ObjectId],
+            ]],
+            operationId,
+          );
+        }
+        return restored;
+      });
+
+      await this.invalidateCache([restoredDoc._id]);
+
+      context.document = restoredDoc;
+      context.diff = this.getDocumentDiff(documentToRestore, restoredDoc);
+      await this.executeHook('afterRestore', context);
+      this.emitEvent('restored', 'restore', {
+        document: restoredDoc,
+        diff: context.diff,
+      });
+
+      const populatedDoc = this.config.populate.defaultPopulate
+      ? await this.applyPopulation(restoredDoc)
+      : restoredDoc;
+
+      return { success: true, data: { docs: this.hideForbiddenFields(populatedDoc) } };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+              code: 'RESTORE_ERROR',
+              message: (error as Error).message,
+            }),
+      };
+    }
+  }
+
+  async clone(
+    id: string,
     override: Partial<T> = {},
   ): Promise<SuccessResponseType<T> | ErrorResponseType> {
     try {
-      const doc = await this.repository.findById(id);
+      const doc = await this.findAccessibleById('read', id);
       if (!doc) {
         throw new ErrorResponse({
           code: 'NOT_FOUND_ERROR',
@@ -810,6 +2552,8 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         });
       }
 
+      await this.authorize('read', { document: doc });
+
       const cloneData = {
         ...doc.toObject(),
         ...override,
@@ -835,6 +2579,243 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     }
   }
 
+  private getHistoryModelOrFail(): Model<IHistoryDocument> {
+    const HistoryModel = this.repository.getHistoryModel();
+    if (!HistoryModel) {
+      throw new ErrorResponse({
+        code: 'OPERATION_NOT_SUPPORTED',
+        message: 'History is not enabled for this model.',
+      });
+    }
+    return HistoryModel;
+  }
+
+  private toObjectId(id: string | Types.ObjectId): Types.ObjectId {
+    return typeof id === 'string' ? new Types.ObjectId(id) : id;
+  }
+
+  private getRevisionData(entry: IHistoryDocument): Partial<T> {
+    const snapshot = resolveHistorySnapshot(entry.snapshot);
+    return Object.keys(snapshot)
+      .filter((field) => !REVISION_SYSTEM_FIELDS.includes(field))
+      .reduce((acc, field) => {
+        acc[field] = snapshot[field];
+        return acc;
+      }, {} as Record<string, any>) as Partial<T>;
+  }
+
+  async listRevisions(
+    id: string | Types.ObjectId,
+  ): Promise<SuccessResponseType<IHistoryDocument[]> | ErrorResponseType> {
+    try {
+      const HistoryModel = this.getHistoryModelOrFail();
+      await this.assertReadable(id);
+      const entries = await HistoryModel.find({ originalId: this.toObjectId(id) })
+        .sort({ createdAt: 1, _id: 1 })
+        .lean()
+        .exec();
+
+      const revisions = entries.map((entry) => ({
+        ...this.hideForbiddenRevisionFields(entry),
+        version: resolveHistorySnapshot(entry.snapshot).__version__,
+      }));
+
+      return { success: true, data: { docs: revisions } };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+              code: 'HISTORY_ERROR',
+              message: (error as Error).message,
+            }),
+      };
+    }
+  }
+
+  async getVersionAt(
+    id: string | Types.ObjectId,
+    at: Date | number,
+  ): Promise<SuccessResponseType<T> | ErrorResponseType> {
+    try {
+      const HistoryModel = this.getHistoryModelOrFail();
+      await this.assertReadable(id);
+      const originalId = this.toObjectId(id);
+
+      let entry: IHistoryDocument | null | undefined;
+      if (at instanceof Date) {
+        entry = await HistoryModel.findOne({
+          originalId,
+          createdAt: { $lte: at },
+        })
+          .sort({ createdAt: -1, _id: -1 })
+          .exec();
+      } else {
+        const entries = await HistoryModel.find({ originalId })
+          .sort({ createdAt: -1, _id: -1 })
+          .exec();
+        entry = entries.find(
+          (candidate) =>
+            candidate.action !== 'hardDelete' &&
+            resolveHistorySnapshot(candidate.snapshot).__version__ === at,
+        );
+      }
+
+      if (!entry || entry.action === 'hardDelete') {
+        throw new ErrorResponse({
+          code: 'NOT_FOUND_ERROR',
+          message: 'No revision of the document matches the requested point in time.',
+        });
+      }
+
+      const document = this.repository
+        .getModel()
+        .hydrate(resolveHistorySnapshot(entry.snapshot));
+
+      return { success: true, data: { docs: this.hideForbiddenFields(document) } };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+              code: 'HISTORY_ERROR',
+              message: (error as Error).message,
+            }),
+      };
+    }
+  }
+
+  async revertTo(
+    id: string | Types.ObjectId,
+    historyEntryId: string | Types.ObjectId,
+  ): Promise<SuccessResponseType<T> | ErrorResponseType> {
+    try {
+      const HistoryModel = this.getHistoryModelOrFail();
+      const documentToRevert = await this.findAccessibleById('update', id, true);
+
+      if (!documentToRevert) {
+        throw new ErrorResponse({
+          code: 'NOT_FOUND_ERROR',
+          message: 'Document to revert not found.',
+        });
+      }
+
+      const entry = await HistoryModel.findOne({
+        _id: this.toObjectId(historyEntryId),
+        originalId: documentToRevert._id,
+      }).exec();
+
+      if (!entry || entry.action === 'hardDelete') {
+        throw new ErrorResponse({
+          code: 'NOT_FOUND_ERROR',
+          message: 'History entry not found for this document.',
+        });
+      }
+
+      let revisionData = this.getRevisionData(entry);
+      const removedFields = Object.keys(documentToRevert.toObject())
+        .filter(
+          (field) =>
+            !REVISION_SYSTEM_FIELDS.includes(field) && !(field in revisionData),
+        );
+
+      // Only the fields that change are written
+      const getRevertedInput = (data: Partial<T>) => Object.fromEntries(
+        [
+          ...Object.keys(data).filter(
+            (field) => !isEqualValue(documentToRevert.get(field), data[field as keyof T]),
+          ),
+          ...removedFields,
+        ].map((field) => [field, true]),
+      );
+      await this.authorize('update', {
+        document: documentToRevert,
+        input: getRevertedInput(revisionData),
+      });
+
+      const context = this.createHookContext('revertTo', {
+        input: revisionData,
+        original: documentToRevert,
+      });
+      await this.executeHook('beforeUpdate', context);
+      revisionData = context.input;
+      await this.authorizeFields('update', {
+        document: documentToRevert,
+        input: getRevertedInput(revisionData),
+      });
+
+      await this.validateUniqueFields(
+        revisionData,
+        documentToRevert._id as Types.ObjectId,
+      );
+      await this.validateDocument(revisionData, 'update');
+
+      if (
+        this.config.slug.enabled &&
+        revisionData[this.config.slug.sourceField] !==
+        documentToRevert[this.config.slug.sourceField]
+      ) {
+        await this.generateUniqueSlug(
+          revisionData,
+          documentToRevert._id as Types.ObjectId,
+        );
+      }
+
+      const revertedDocument = await this.repository.update(
+        { _id: documentToRevert._id },
+        {
+          $set: revisionData,
+          ...(removedFields.length && {
+            $unset: Object.fromEntries(removedFields.map((field) => [field, 1])),
+          }),
+        } as UpdateQuery<T>,
+        {
+          historyAction: 'revert',
+          historyMetadata: { revertedFrom: entry._id },
+        },
+        true,
+      );
+
+      if (!revertedDocument) {
+        throw new ErrorResponse({
+          code: 'NOT_FOUND_ERROR',
+          message: 'Reverted document not found.',
+        });
+      }
+
+      await this.invalidateCache([revertedDocument._id]);
+
+      context.document = revertedDocument;
+      context.diff = this.getDocumentDiff(documentToRevert, revertedDocument);
+      await this.executeHook('afterUpdate', context);
+      this.emitEvent('updated', 'revertTo', {
+        document: revertedDocument,
+        diff: context.diff,
+      });
+
+      const populatedDoc = this.config.populate.defaultPopulate
+      ? await this.applyPopulation(revertedDocument)
+      : revertedDocument;
+
+      return { success: true, data: { docs: this.hideForbiddenFields(populatedDoc) } };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+              code: 'REVERT_ERROR',
+              message: (error as Error).message,
+            }),
+      };
+    }
+  }
+
   async aggregate(
     pipelineName: string,
     params: any = {},
@@ -847,127 +2828,590 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         });
       }
 
+      await this.authorize('aggregate');
+
       const pipeline = this.config.aggregation.customPipelines[pipelineName](
         params,
       );
-      const results = await this.repository.getModel().aggregate(pipeline);
+      const accessFilter = await this.getAccessFilter('aggregate');
+      if (Object.keys(accessFilter).length) {
+        // Aggregations are not cast by mongoose
+        pipeline.unshift({
+          $match: this.repository.getModel().find(accessFilter).cast(),
+        });
+      }
+      const results = await this.repository.aggregate(pipeline);
+
+      return { success: true, data: { docs: this.hideForbiddenFields(results) } };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+              code: 'AGGREGATION_ERROR',
+              message: (error as Error).message,
+            }),
+      };
+    }
+  }
+
+  async exportData(
+    query: FilterQuery<T> = {},
+    format: 'json' | ExportFormat = 'json',
+    options: ExportOptions = {},
+  ): Promise<SuccessResponseType<T> | ErrorResponseType> {
+    try {
+      if (format !== 'json') {
+        let result = '';
+        for await (const chunk of this.generateExport(query, format, options)) {
+          result += chunk;
+        }
+        return { success: true, data: { result, format } };
+      }
+
+      await this.authorize('export');
+      const fields = this.getExportFields(options);
+      const result: Record<string, any>[] = [];
+      for await (const row of this.readExportRows(query, fields, options)) {
+        result.push(
+          fields.reduce(
+            (acc, field) => setPathValue(acc, field, row[field]),
+            {} as Record<string, any>,
+          ),
+        );
+      }
+
+      return { success: true, data: { result, format: 'json' } };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+                code: 'EXPORT_ERROR',
+                message: (error as Error).message,
+                statusCode:400,
+              }),
+      };
+    }
+  }
+
+  exportStream(
+    query: FilterQuery<T> = {},
+    format: ExportFormat = 'csv',
+    options: ExportOptions = {},
+  ): Readable {
+    return Readable.from(this.generateExport(query, format, options));
+  }
+
+  private getExportFields(options: ExportOptions): string[] {
+    if (options.include && options.exclude) {
+      throw new ErrorResponse({
+        code: 'EXPORT_ERROR',
+        message: 'Les options "include" et "exclude" ne peuvent pas être utilisées ensemble.',
+        statusCode: 400,
+      });
+    }
+
+    return resolveExportFields(
+      getSchemaFieldPaths(this.repository.getModel().schema),
+      {
+        include: options.include,
+        exclude: [...(options.exclude ?? []), ...this.config.projection.forbiddenFields],
+      },
+    );
+  }
+
+  private async *readExportRows(
+    query: FilterQuery<T>,
+    fields: string[],
+    options: ExportOptions,
+  ): AsyncGenerator<Record<string, any>> {
+    const schemaFields = getSchemaFieldPaths(this.repository.getModel().schema);
+    // Virtuals may depend on any field, only project when every column is stored
+    const projection = fields.every((field) => schemaFields.includes(field))
+      ? Object.fromEntries(fields.map((field) => [field, 1]))
+      : undefined;
+
+    const cursor = this.repository.findCursor(
+      combineFilters(
+        this.filterAllowedFields(query),
+        await this.getAccessFilter('export'),
+      ) as FilterQuery<T>,
+      {
+        ...(projection && { projection }),
+        ...(options.sort && { sort: options.sort }),
+      },
+      options.includeDeleted,
+    );
+
+    try {
+      for await (const document of cursor) {
+        yield fields.reduce((acc, field) => {
+          const value = document.get(field);
+          const formatter = options.formatters?.[field];
+          acc[field] = formatter ? formatter(value, document) : value;
+          return acc;
+        }, {} as Record<string, any>);
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  private async *generateExport(
+    query: FilterQuery<T>,
+    format: ExportFormat,
+    options: ExportOptions,
+  ): AsyncGenerator<string> {
+    try {
+      if (!['csv', 'tsv', 'ndjson'].includes(format)) {
+        throw new ErrorResponse({
+          code: 'EXPORT_ERROR',
+          message: `Unsupported export format: ${format}.`,
+          statusCode: 400,
+          suggestions: ['Use one of: csv, tsv, ndjson.'],
+        });
+      }
+
+      await this.authorize('export');
+      const fields = this.getExportFields(options);
+
+      if (format !== 'ndjson') {
+        yield toDelimitedLine(
+          fields.map((field) => options.headers?.[field] ?? field),
+          format,
+        );
+      }
+
+      for await (const row of this.readExportRows(query, fields, options)) {
+        if (format === 'ndjson') {
+          const document = fields.reduce(
+            (acc, field) => setPathValue(acc, field, row[field]),
+            {} as Record<string, any>,
+          );
+          yield `${JSON.stringify(document)}\n`;
+        } else {
+          yield toDelimitedLine(fields.map((field) => row[field]), format);
+        }
+      }
+    } catch (error) {
+      throw error instanceof ErrorResponse
+        ? error
+        : new ErrorResponse({
+          code: 'EXPORT_ERROR',
+          message: (error as Error).message,
+          statusCode: 400,
+        });
+    }
+  }
+
+  async importData(
+    source: ImportSource,
+    format: ImportFormat = 'csv',
+    options: ImportOptions = {},
+  ): Promise<SuccessResponseType<ImportReport> | ErrorResponseType> {
+    try {
+      const { mode = 'insert', upsertKey, dryRun = false } = options;
+
+      if (!['csv', 'tsv', 'ndjson', 'json'].includes(format)) {
+        throw new ErrorResponse({
+          code: 'IMPORT_ERROR',
+          message: `Unsupported import format: ${format}.`,
+          statusCode: 400,
+          suggestions: ['Use one of: csv, tsv, ndjson, json.'],
+        });
+      }
+
+      if (
+        mode === 'upsert' &&
+        (!upsertKey ||
+          (upsertKey !== '_id' && !this.uniqueFields.has(upsertKey as keyof T)))
+      ) {
+        throw new ErrorResponse({
+          code: 'IMPORT_ERROR',
+          message: 'Upsert imports require "upsertKey" to be a unique field.',
+          statusCode: 400,
+          suggestions: [
+            `Unique fields: ${['_id', ...Array.from(this.uniqueFields)].join(', ')}.`,
+          ],
+        });
+      }
+
+      const systemTargets = Object.values(options.mapping ?? {}).filter((path) =>
+        this.isImportSystemPath(path, options),
+      );
+      if (systemTargets.length) {
+        throw new ErrorResponse({
+          code: 'IMPORT_ERROR',
+          message: `Columns cannot be mapped to system fields: ${systemTargets.join(', ')}.`,
+          statusCode: 400,
+        });
+      }
+
+      const report: ImportReport = {
+        dryRun,
+        total: 0,
+        inserted: 0,
+        updated: 0,
+        failed: 0,
+        rows: [],
+      };
+      const seenValues = new Map<string, Set<string>>();
+
+      for await (const record of this.readImportRecords(source, format)) {
+        const result = await this.importRow(
+          record,
+          report.total + 1,
+          options,
+          seenValues,
+        );
+        report.rows.push(result);
+        report.total++;
+        report[result.status]++;
+      }
+
+      if (!dryRun && (report.inserted || report.updated)) {
+        await this.invalidateCache();
+      }
+
+      return { success: true, data: report };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({
+              code: 'IMPORT_ERROR',
+              message: (error as Error).message,
+              statusCode: 400,
+            }),
+      };
+    }
+  }
+
+  private async *readImportRecords(
+    source: ImportSource,
+    format: ImportFormat,
+  ): AsyncGenerator<Record<string, any> | Error> {
+    const chunks = readSourceChunks(source);
+
+    if (format === 'json') {
+      let text = '';
+      for await (const chunk of chunks) {
+        text += chunk;
+      }
+      const parsed = JSON.parse(text);
+      for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+        yield item && typeof item === 'object' && !Array.isArray(item)
+          ? flattenObject(item)
+          : new Error('Each record must be a JSON object.');
+      }
+      return;
+    }
+
+    if (format === 'ndjson') {
+      for await (const line of readSourceLines(chunks)) {
+        try {
+          const item = JSON.parse(line);
+          yield item && typeof item === 'object' && !Array.isArray(item)
+            ? flattenObject(item)
+            : new Error('Each line must be a JSON object.');
+        } catch (error) {
+          yield error as Error;
+        }
+      }
+      return;
+    }
+
+    let headers: string[] | undefined;
+    for await (const values of parseDelimitedRecords(
+      chunks,
+      format === 'tsv' ? '\t' : ',',
+    )) {
+      if (!headers) {
+        headers = values.map((header) => header.trim());
+        continue;
+      }
+      yield values.length === headers.length
+        ? Object.fromEntries(headers.map((header, index) => [header, values[index]]))
+        : new Error(`Expected ${headers.length} columns but found ${values.length}.`);
+    }
+  }
+
+  // Paths maintained by the framework cannot be written by an import, nor
+  // update operators. The _id of an upsert import only matches existing
+  // documents.
+  private isImportSystemPath(path: string, { mode, upsertKey }: ImportOptions): boolean {
+    if (path.split('.').some((key) => key.startsWith('$'))) return true;
+    if (path === '_id' && mode === 'upsert' && upsertKey === '_id') return false;
+    const Model = this.repository.getModel() as Model<T> & { getTenantField?: () => string };
+    const systemPaths = [...REVISION_SYSTEM_FIELDS, Model.getTenantField?.() ?? 'tenantId'];
+    return isPathAllowed(path, systemPaths);
+  }
+
+  private buildImportDocument(
+    record: Record<string, any>,
+    options: ImportOptions,
+  ): { input: Partial<T>; errors: ImportRowError[] } {
+    const schema = this.repository.getModel().schema;
+    const mapping = options.mapping ?? {};
+    const errors: ImportRowError[] = [];
+
+    const input = Object.entries(record).reduce((acc, [column, value]) => {
+      const path = mapping[column] ?? column;
+      if (this.isImportSystemPath(path, options)) {
+        errors.push({
+          code: 'FORBIDDEN_FIELD',
+          message: `The system field ${path} cannot be imported.`,
+          field: path,
+        });
+        return acc;
+      }
+      try {
+        const coerced = coerceImportValue(value, schema.path(path));
+        if (coerced !== undefined) {
+          setPathValue(acc, path, coerced);
+        }
+      } catch (error) {
+        errors.push({
+          code: 'INVALID_VALUE',
+          message: (error as Error).message,
+          field: path,
+        });
+      }
+      return acc;
+    }, {} as Record<string, any>);
+
+    return { input: input as Partial<T>, errors };
+  }
+
+  private toImportErrors(error: unknown): ImportRowError[] {
+    if (error instanceof ValidationError) {
+      return error.issues.map(({ path, code, message }) => ({ code, message, field: path }));
+    }
+    if (error instanceof MongooseError.ValidationError) {
+      return Object.entries(error.errors).map(([field, fieldError]) => ({
+        code: 'VALIDATION_ERROR',
+        message: fieldError.message,
+        field,
+      }));
+    }
+    const { code, message = String(error) } = (error ?? {}) as {
+      code?: unknown;
+      message?: string;
+    };
+    if (code === 11000) {
+      return [{ code: 'UNIQUE_FIELD_ERROR', message }];
+    }
+    return [
+      {
+        code: error instanceof ErrorResponse && typeof code === 'string' ? code : 'IMPORT_ERROR',
+        message,
+      },
+    ];
+  }
 
-      return { success: true, data: { docs: results } };
-    } catch (error) {
+  private async importRow(
+    record: Record<string, any> | Error,
+    row: number,
+    options: ImportOptions,
+    seenValues: Map<string, Set<string>>,
+  ): Promise<ImportRowResult> {
+    if (record instanceof Error) {
       return {
-        success: false,
-        error:
-          error instanceof ErrorResponse
-            ? error
-            : new ErrorResponse({
-              code: 'AGGREGATION_ERROR',
-              message: (error as Error).message,
-            }),
+        row,
+        status: 'failed',
+        errors: [{ code: 'INVALID_RECORD', message: record.message }],
       };
     }
-  }
 
-  async exportData(
-    query: FilterQuery<T> = {},
-    format: 'json' | 'csv' = 'json',
-    options: {
-      include?: string[]; 
-      exclude?: string[];
-    } = {},
-  ): Promise<SuccessResponseType<T> | ErrorResponseType> {
+    const { mode = 'insert', upsertKey, dryRun = false } = options;
+    const built = this.buildImportDocument(record, options);
+    if (built.errors.length) {
+      return { row, status: 'failed', errors: built.errors };
+    }
+    let input = built.input;
+    const valueOf = (field: string) => (input as Record<string, unknown>)[field];
+
+    const trackedFields = [
+      ...Array.from(this.uniqueFields).map(String),
+      ...(upsertKey ? [upsertKey] : []),
+    ];
+    // Rows are not written during a dry run, duplicates inside the source are
+    // caught here so that both runs report the same result
+    const duplicates = trackedFields
+      .filter((field) => valueOf(field) !== undefined)
+      .filter((field) => seenValues.get(field)?.has(String(valueOf(field))))
+      .map((field) => ({
+        code: 'DUPLICATE_IN_SOURCE',
+        message: `The value of ${field} appears more than once in the source.`,
+        field,
+      }));
+    if (duplicates.length) {
+      return { row, status: 'failed', errors: duplicates };
+    }
+
     try {
-      if (options.include && options.exclude) {
-        throw new ErrorResponse({
-          code: 'EXPORT_ERROR',
-          message: 'Les options "include" et "exclude" ne peuvent pas être utilisées ensemble.',
-        });
+      let existing: T | null = null;
+      if (mode === 'upsert') {
+        const key = valueOf(upsertKey!);
+        if (key === undefined || key === null) {
+          throw new ErrorResponse({
+            code: 'MISSING_UPSERT_KEY',
+            message: `The ${upsertKey} value is required to upsert a row.`,
+          });
+        }
+        existing = await this.repository.findOne(
+          await this.scopeQuery('update', { [upsertKey!]: key } as FilterQuery<T>),
+        );
       }
-      
 
-      const results = await this.findAll({ query });
+      let id: Types.ObjectId | undefined;
 
-      if(!results.success){
-        throw results.error;
-      }
+      if (existing) {
+        const existingId = existing._id as Types.ObjectId;
+        await this.authorize('update', { document: existing, input });
+        const context = this.createHookContext('importData', { input, original: existing });
+        // Hooks may have side effects, a dry run only validates the rows
+        if (!dryRun) {
+          await this.executeHook('beforeUpdate', context);
+          input = context.input;
+        }
+        await this.authorizeFields('update', { document: existing, input });
+        await this.validateUniqueFields(input, existingId);
+        await this.validateDocument(input, 'update');
+        if (
+          this.config.slug.enabled &&
+          input[this.config.slug.sourceField] !== undefined &&
+          input[this.config.slug.sourceField] !== existing[this.config.slug.sourceField]
+        ) {
+          await this.generateUniqueSlug(input, existingId);
+        }
 
-      const documents = results?.data?.docs as T[];
-      
-      const allFields = Object.keys(this.repository.getModel().schema.paths);
-  
-      let fields = allFields;
-      if (options.include) {
-        fields = options.include;
-      } else if (options.exclude) {
-        fields = fields.filter((field) => !(options.exclude?.includes(field)));
-      }
-  
-      const filteredDocuments = documents.map((doc) =>
-        fields.reduce((acc, field) => {
-          acc[field] = doc.get(field);
-          return acc;
-        }, {} as Record<string, any>),
-      );
-  
-      if (format === 'csv') {
-        const csv = this.generateCSV(fields, filteredDocuments);
-        return { success: true, data: { result: csv, format: 'csv' } };
+        if (dryRun) {
+          existing.set(input);
+          await existing.validate();
+        } else {
+          const updated = await this.repository.update({ _id: existingId }, input);
+          if (updated) {
+            context.document = updated;
+            context.diff = this.getDocumentDiff(existing, updated);
+            await this.executeHook('afterUpdate', context);
+            this.emitEvent('updated', 'importData', {
+              document: updated,
+              diff: context.diff,
+            });
+          }
+        }
+        id = existingId;
+      } else {
+        await this.authorize('create', { input });
+        const context = this.createHookContext('importData', { input });
+        if (!dryRun) {
+          await this.executeHook('beforeCreate', context);
+          input = context.input;
+        }
+        await this.authorizeFields('create', { input });
+        await this.validateUniqueFields(input);
+        await this.validateDocument(input);
+        if (this.config.slug.enabled && this.config.slug.sourceField in input) {
+          await this.generateUniqueSlug(input);
+        }
+
+        const Model = this.repository.getModel();
+        if (dryRun) {
+          await new Model(input).validate();
+        } else {
+          const created = await this.repository.create(input);
+          context.document = created;
+          context.diff = this.getDocumentDiff(null, created);
+          await this.executeHook('afterCreate', context);
+          this.emitEvent('created', 'importData', {
+            document: created,
+            diff: context.diff,
+          });
+          id = created._id as Types.ObjectId;
+        }
       }
-  
-      return { success: true, data: { result: filteredDocuments, format: 'json' } };
-    } catch (error) {
+
+      trackedFields.forEach((field) => {
+        const value = valueOf(field);
+        if (value === undefined) return;
+        if (!seenValues.has(field)) seenValues.set(field, new Set());
+        seenValues.get(field)!.add(String(value));
+      });
+
       return {
-        success: false,
-        error:
-          error instanceof ErrorResponse
-            ? error
-            : new ErrorResponse({
-                code: 'EXPORT_ERROR',
-                message: (error as Error).message,
-                statusCode:400,
-              }),
+        row,
+        status: existing ? 'updated' : 'inserted',
+        ...(id && { id }),
+        errors: [],
       };
+    } catch (error) {
+      return { row, status: 'failed', errors: this.toImportErrors(error) };
     }
   }
-  
-  private generateCSV(headers: string[], rows: Record<string, any>[]): string {
-    const csvRows = [
-      headers.join(','),
-      ...rows.map((row) =>
-        headers
-          .map((header) => {
-            const value = row[header];
-            if (typeof value === 'string' && value.includes(',')) {
-              return `"${value.replace(/"/g, '""')}"`;
-            }
-            return value || '';
-          })
-          .join(','),
-      ),
-    ];
-    return csvRows.join('\n');
-  }
-  
 
   async findById(
     id: string | Types.ObjectId,
     populate = this.config.populate.defaultPopulate,
     includeDeleted = false,
+    select?: FieldSelection,
   ): Promise<SuccessResponseType<T> | ErrorResponseType> {
     try {
-      const document = await this.repository.findById(id, includeDeleted);
+      const idFilter = { _id: this.toObjectId(id) } as FilterQuery<T>;
+      const context = this.createHookContext('findById', { filter: idFilter });
+      await this.executeHook('beforeFind', context);
+      // Hooks that narrow the filter turn the lookup into a filtered one
+      const filtered = context.filter !== idFilter || Object.keys(idFilter).length > 1;
+
+      const projection = this.resolveProjection(select);
+      const accessFilter = await this.getAccessFilter('read');
+      const cacheKey = this.getCacheKey('findById', {
+        id: String(id),
+        ...(filtered && { query: context.filter }),
+        populate,
+        includeDeleted,
+        select: projection,
+        access: this.getReadCacheScope(accessFilter),
+      });
+      const response = await this.getCachedData(cacheKey, async () => {
+        const document = filtered || Object.keys(accessFilter).length
+          ? await this.repository.findOne(
+            combineFilters(context.filter ?? idFilter, accessFilter) as FilterQuery<T>,
+            projection ? { projection } : {},
+            includeDeleted,
+          )
+          : await this.repository.findById(
+            id,
+            includeDeleted,
+            projection ? { projection } : {},
+          );
 
-      if (!document) {
-        throw new ErrorResponse({
-          code: 'NOT_FOUND_ERROR',
-          message: 'The requested document was not found.',
-        });
-      }
+        if (!document) {
+          throw new ErrorResponse({
+            code: 'NOT_FOUND_ERROR',
+            message: 'The requested document was not found.',
+          });
+        }
 
-      const populatedDoc = populate
-      ? await this.applyPopulation(document)
-      : document;
+        await this.authorize('read', { document });
+
+        const populatedDoc = populate
+        ? await this.applyPopulation(document)
+        : document;
 
-      return { success: true, data: { docs: populatedDoc } };
+        return { success: true, data: { docs: this.hideForbiddenFields(populatedDoc) } };
+      }, [this.getDocumentCacheTag(id)]);
+
+      context.result = response.data.docs;
+      await this.executeHook('afterFind', context);
+      return response;
     } catch (error) {
       return {
         success: false,
@@ -985,9 +3429,10 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
   async updateById(
     id: string | Types.ObjectId,
     updateInput: UpdateQuery<T>,
+    options: { expectedVersion?: number } = {},
   ): Promise<SuccessResponseType<T> | ErrorResponseType> {
     try {
-      const documentToUpdate = await this.repository.findById(id);
+      const documentToUpdate = await this.findAccessibleById('update', id);
 
       if (!documentToUpdate) {
         throw new ErrorResponse({
@@ -996,17 +3441,34 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         });
       }
 
-      await this.executeHook('beforeUpdate', documentToUpdate, updateInput);
+      await this.authorize('update', {
+        document: documentToUpdate,
+        input: updateInput,
+      });
+
+      await this.assertExpectedVersion(documentToUpdate, options.expectedVersion);
+
+      const context = this.createHookContext('updateById', {
+        input: updateInput,
+        original: documentToUpdate,
+      });
+      await this.executeHook('beforeUpdate', context);
+      updateInput = context.input;
+      await this.authorizeFields('update', {
+        document: documentToUpdate,
+        input: updateInput,
+      });
 
       await this.validateUniqueFields(
         updateInput as Partial<T>,
         documentToUpdate._id as Types.ObjectId,
       );
-      await this.validateDocument(updateInput as Partial<T>);
+      await this.validateDocument(updateInput as Partial<T>, 'update');
 
       const updatedDocument = await this.repository.updateById(
         id,
         updateInput,
+        { expectedVersion: options.expectedVersion },
       );
 
       if (!updatedDocument) {
@@ -1016,13 +3478,21 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         });
       }
 
-      await this.executeHook('afterUpdate', updatedDocument);
+      await this.invalidateCache([updatedDocument._id]);
+
+      context.document = updatedDocument;
+      context.diff = this.getDocumentDiff(documentToUpdate, updatedDocument);
+      await this.executeHook('afterUpdate', context);
+      this.emitEvent('updated', 'updateById', {
+        document: updatedDocument,
+        diff: context.diff,
+      });
 
       const populatedDoc = this.config.populate.defaultPopulate
       ? await this.applyPopulation(updatedDocument)
       : updatedDocument;
 
-      return { success: true, data: { docs: populatedDoc } };
+      return { success: true, data: { docs: this.hideForbiddenFields(populatedDoc) } };
     } catch (error) {
       return {
         success: false,
@@ -1041,7 +3511,7 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     id: string | Types.ObjectId,
   ): Promise<SuccessResponseType<T> | ErrorResponseType> {
     try {
-      const documentToDelete = await this.repository.findById(id);
+      const documentToDelete = await this.findAccessibleById('delete', id);
 
       if (!documentToDelete) {
         throw new ErrorResponse({
@@ -1050,27 +3520,55 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
         });
       }
 
-      await this.executeHook('beforeDelete', documentToDelete);
+      await this.authorize('delete', { document: documentToDelete });
 
-      const deletedDocument = await this.repository.deleteById(
-        id,
-        this.config.softDelete,
-      );
+      const context = this.createHookContext('deleteById', { original: documentToDelete });
+      await this.executeHook('beforeDelete', context);
 
-      if (!deletedDocument) {
-        throw new ErrorResponse({
-          code: 'NOT_FOUND_ERROR',
-          message: this.config.softDelete ? 'Document to soft delete not found.' : 'Document to delete not found.',
-        });
-      }
+      const documentId = documentToDelete._id as Types.ObjectId;
+      const deletedDocument = await this.runCascade(async () => {
+        await this.assertNoBlockingReferences([documentId], this.config.softDelete);
+        const operationId = this.config.relations.length ? randomUUID() : undefined;
+
+        const deleted = await this.repository.deleteById(
+          id,
+          this.config.softDelete,
+          this.getOperationOptions(operationId),
+        );
+
+        if (!deleted) {
+          throw new ErrorResponse({
+            code: 'NOT_FOUND_ERROR',
+            message: this.config.softDelete ? 'Document to soft delete not found.' : 'Document to delete not found.',
+          });
+        }
 
-      await this.executeHook('afterDelete', deletedDocument);
+        if (operationId) {
+          await this.deleteRelated(
+            this.repository.getModel(),
+            [documentId],
+            this.config.softDelete,
+            operationId,
+          );
+        }
+        return deleted;
+      });
+      await this.invalidateCache([deletedDocument._id]);
+
+      context.document = deletedDocument;
+      context.diff = this.getDocumentDiff(documentToDelete, deletedDocument);
+      await this.executeHook('afterDelete', context);
+      this.emitEvent('deleted', 'deleteById', {
+        document: deletedDocument,
+        diff: context.diff,
+        softDelete: this.config.softDelete,
+      });
 
       const populatedDoc = this.config.populate.defaultPopulate
       ? await this.applyPopulation(deletedDocument)
       : deletedDocument;
 
-      return { success: true, data: { docs: populatedDoc } };
+      return { success: true, data: { docs: this.hideForbiddenFields(populatedDoc) } };
     } catch (error) {
       return {
         success: false,
@@ -1098,20 +3596,59 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
       };
     }
     try {
-      const restoredDoc = await this.repository.restoreById(id);
-
-      if (!restoredDoc) {
+      const documentToRestore = await this.findAccessibleById('restore', id, true);
+      if (!documentToRestore) {
         throw new ErrorResponse({
           code: 'NOT_FOUND_ERROR',
           message: 'Document not found in deleted state.',
         });
       }
+      await this.authorize('restore', { document: documentToRestore });
+
+      const context = this.createHookContext('restoreById', { original: documentToRestore });
+      await this.executeHook('beforeRestore', context);
+
+      const restoredDoc = await this.runCascade(async () => {
+        const operationId = this.config.relations.length ? randomUUID() : undefined;
+        const restored = await this.repository.restoreById(
+          id,
+          this.getOperationOptions(operationId),
+        );
+
+
+        if (!restored) {
+          throw new ErrorResponse({
+            code: 'NOT_FOUND_ERROR',
+            message: 'Document not found in deleted state.',
+          });
+        }
+        if (operationId) {
+          await this.restoreRelated(
+            [[
+              documentToRestore.get('deletedAt') as Date,
+              [documentToRestore._id as Types.ObjectId],
+            ]],
+            operationId,
+          );
+        }
+        return restored;
+      });
+
+      await this.invalidateCache([restoredDoc._id]);
+
+      context.document = restoredDoc;
+      context.diff = this.getDocumentDiff(documentToRestore, restoredDoc);
+      await this.executeHook('afterRestore', context);
+      this.emitEvent('restored', 'restoreById', {
+        document: restoredDoc,
+        diff: context.diff,
+      });
 
       const populatedDoc = this.config.populate.defaultPopulate
       ? await this.applyPopulation(restoredDoc)
       : restoredDoc;
 
-      return { success: true, data: { docs: populatedDoc } };
+      return { success: true, data: { docs: this.hideForbiddenFields(populatedDoc) } };
     } catch (error) {
       return {
         success: false,
@@ -1131,7 +3668,19 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     softDelete = true,
   ): Promise<SuccessResponseType<{ deleted: number }> | ErrorResponseType> {
     try {
-      const deleted = await this.repository.deleteMany(filter, softDelete);
+      await this.authorize('delete');
+      const context = this.createHookContext('bulkDelete', { filter });
+      await this.executeHook('beforeBulkDelete', context);
+      const scopedFilter = await this.scopeQuery('delete', context.filter);
+      const deleted = await this.deleteManyWithRelations(scopedFilter, softDelete);
+      await this.invalidateCache();
+      context.result = deleted;
+      await this.executeHook('afterBulkDelete', context);
+      this.emitEvent('bulkDeleted', 'bulkDelete', {
+        filter: scopedFilter,
+        count: deleted,
+        softDelete,
+      });
       return { success: true, data: { deleted } };
     } catch (error) {
       return {
@@ -1150,28 +3699,46 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
       skipValidation?: boolean;
       ordered?: boolean;
       validateBeforeInsert?: boolean;
+      transaction?: boolean;
     } = {}
   ): Promise<SuccessResponseType<T[]> | ErrorResponseType> {
     try {
-      if (options.validateBeforeInsert && !options.skipValidation) {
-        await Promise.all(
-          documents.map(async (doc) => {
+      await Promise.all(
+        documents.map((doc) => this.authorize('create', { input: doc })),
+      );
+
+      const run = async () => {
+        const { bulkContext, contexts } = await this.runBeforeBulkCreate(
+          'batchCreate',
+          documents,
+        );
+        const inputs = contexts.map((context) => context.input);
+
+        if (options.validateBeforeInsert && !options.skipValidation) {
+          await this.runEach(inputs, async (doc) => {
             await this.validateUniqueFields(doc);
             await this.validateDocument(doc);
             await this.generateUniqueSlug(doc);
-          })
+          });
+        }
+
+        const createdDocs = await this.repository.createMany(
+          inputs,
+          options.ordered ?? true
         );
-      }
+        await this.invalidateCache(createdDocs.map((doc) => doc._id));
+        await this.runAfterBulkCreate(bulkContext, contexts, createdDocs);
+        return createdDocs;
+      };
 
-      const createdDocuments = await this.repository.createMany(
-        documents,
-        options.ordered ?? true
-      );
+      const createdDocuments = options.transaction
+        ? await this.runInTransaction(run)
+        : await run();
 
       return {
         success: true,
         data: {
-          docs: createdDocuments,
+          docs: this.hideForbiddenFields(createdDocuments),
           total: createdDocuments.length
         },
       };
@@ -1196,25 +3763,46 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     options: {
       validateEach?: boolean;
       stopOnError?: boolean;
+      transaction?: boolean;
     } = {}
   ): Promise<SuccessResponseType<{ updated: number }> | ErrorResponseType> {
     try {
-      const results = await Promise.all(
-        updates.map(async ({ filter, update }) => {
-          if (options.validateEach) {
-            const docsToUpdate = await this.repository.findAll(filter);
-            await Promise.all(
-              docsToUpdate.map(doc =>
-                this.validateDocument({ ...doc.toObject(), ...update })
-              )
-            );
-          }
-
-          return this.repository.updateMany(filter, update);
-        })
+      await Promise.all(
+        updates.map(({ update }) => this.authorize('update', { input: update })),
       );
+      const accessFilter = await this.getAccessFilter('update');
+
+      const applyUpdate = async ({ filter: baseFilter, update }: typeof updates[number]) => {
+        const context = this.createHookContext('batchUpdate', {
+          filter: baseFilter,
+          input: update,
+        });
+        await this.executeHook('beforeBulkUpdate', context);
+        await this.authorizeFields('update', { input: context.input });
+        const filter = combineFilters(context.filter ?? {}, accessFilter) as FilterQuery<T>;
+        if (options.validateEach) {
+          const docsToUpdate = await this.repository.findAll(filter);
+          await this.runEach(docsToUpdate, (doc) =>
+            this.validateDocument({ ...doc.toObject(), ...context.input }, 'update')
+          );
+        }
+
+        context.result = await this.repository.updateMany(filter, context.input);
+        await this.executeHook('afterBulkUpdate', context);
+        return context.result as number;
+      };
+
+      const results = options.transaction
+        ? await this.runInTransaction(() => this.runSequentially(updates, applyUpdate))
+        : await Promise.all(updates.map(applyUpdate));
+      await this.invalidateCache();
 
       const totalUpdated = results.reduce((sum, result) => sum + result, 0);
+      this.emitEvent('bulkUpdated', 'batchUpdate', {
+        filter: updates.map(({ filter }) => filter),
+        update: updates.map(({ update }) => update),
+        count: totalUpdated,
+      });
 
       return {
         success: true,
@@ -1237,23 +3825,39 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     options: {
       softDelete?: boolean;
       validateBeforeDelete?: boolean;
+      transaction?: boolean;
     } = {}
   ): Promise<SuccessResponseType<{ deleted: number }> | ErrorResponseType> {
     try {
       const softDelete = options.softDelete ?? this.config.softDelete;
+      await this.authorize('delete');
+      const accessFilter = await this.getAccessFilter('delete');
+
+      const applyDelete = async (baseFilter: FilterQuery<T>) => {
+        const context = this.createHookContext('batchDelete', { filter: baseFilter });
+        await this.executeHook('beforeBulkDelete', context);
+        const filter = combineFilters(context.filter ?? {}, accessFilter) as FilterQuery<T>;
+        if (options.validateBeforeDelete) {
+          const docsToDelete = await this.repository.findAll(filter);
+          if (docsToDelete.length === 0) return 0;
+        }
 
-      const results = await Promise.all(
-        filters.map(async (filter) => {
-          if (options.validateBeforeDelete) {
-            const docsToDelete = await this.repository.findAll(filter);
-            if (docsToDelete.length === 0) return 0;
-          }
+        context.result = await this.deleteManyWithRelations(filter, softDelete);
+        await this.executeHook('afterBulkDelete', context);
+        return context.result as number;
+      };
 
-          return this.repository.deleteMany(filter, softDelete);
-        })
-      );
+      const results = options.transaction
+        ? await this.runInTransaction(() => this.runSequentially(filters, applyDelete))
+        : await Promise.all(filters.map(applyDelete));
+      await this.invalidateCache();
 
       const totalDeleted = results.reduce((sum, result) => sum + result, 0);
+      this.emitEvent('bulkDeleted', 'batchDelete', {
+        filter: filters,
+        count: totalDeleted,
+        softDelete,
+      });
 
       return {
         success: true,
@@ -1275,6 +3879,7 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     filters: FilterQuery<T>[],
     options: {
       validateBeforeRestore?: boolean;
+      transaction?: boolean;
     } = {}
   ): Promise<SuccessResponseType<{ restored: number }> | ErrorResponseType> {
     if (!this.config.softDelete) {
@@ -1288,21 +3893,35 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     }
 
     try {
-      const results = await Promise.all(
-        filters.map(async (filter) => {
-          if (options.validateBeforeRestore) {
-            const docsToRestore = await this.repository.findAll(
-              { ...filter, deletedAt: { $ne: null } }
-            );
-            if (docsToRestore.length === 0) return 0;
-          }
+      await this.authorize('restore');
+      const accessFilter = await this.getAccessFilter('restore');
+
+      const applyRestore = async (baseFilter: FilterQuery<T>) => {
+        const context = this.createHookContext('batchRestore', { filter: baseFilter });
+        await this.executeHook('beforeBulkRestore', context);
+        const filter = combineFilters(context.filter ?? {}, accessFilter) as FilterQuery<T>;
+        if (options.validateBeforeRestore) {
+          const docsToRestore = await this.repository.findAll(
+            { ...filter, deletedAt: { $ne: null } }
+          );
+          if (docsToRestore.length === 0) return 0;
+        }
 
-          const restoredCount = await this.repository.restoreMany(filter);
-          return restoredCount;
-        })
-      );
+        context.result = await this.restoreManyWithRelations(filter);
+        await this.executeHook('afterBulkRestore', context);
+        return context.result as number;
+      };
+
+      const results = options.transaction
+        ? await this.runInTransaction(() => this.runSequentially(filters, applyRestore))
+        : await Promise.all(filters.map(applyRestore));
+      await this.invalidateCache();
 
       const totalRestored = results.reduce((sum, result) => sum + result, 0);
+      this.emitEvent('bulkUpdated', 'batchRestore', {
+        filter: filters,
+        count: totalRestored,
+      });
 
       return {
         success: true,
@@ -1320,12 +3939,248 @@ export class BaseService<T extends Document, R extends BaseRepository<T>> {
     }
   }
 
+  private notSoftDeleted(): ErrorResponseType {
+    return {
+      success: false,
+      error: new ErrorResponse({
+        code: 'OPERATION_NOT_SUPPORTED',
+        message: 'Soft delete is not enabled for this service.',
+      }),
+    };
+  }
+
+  async listTrash({
+    query = {},
+    deletedBy,
+    deletedBefore,
+    deletedAfter,
+    page,
+    limit,
+  }: TrashListOptions<T> = {}): Promise<SuccessResponseType<T> | ErrorResponseType> {
+    if (!this.config.softDelete) {
+      return this.notSoftDeleted();
+    }
+
+    try {
+      await this.authorize('read');
+      const accessFilter = await this.getAccessFilter('read');
+      const trashQuery = combineFilters(
+        this.filterAllowedFields(query),
+        accessFilter,
+        {
+          deletedAt: {
+            $ne: null,
+            ...(deletedBefore && { $lt: deletedBefore }),
+            ...(deletedAfter && { $gte: deletedAfter }),
+          },
+          ...(deletedBy && { deletedBy: this.toObjectId(deletedBy) }),
+        },
+      ) as FilterQuery<T>;
+
+      const finalPage = Math.max(1, page ?? this.config.pagination.defaultPage);
+      const finalLimit = Math.min(
+        this.config.pagination.maxLimit,
+        limit ?? this.config.pagination.defaultLimit,
+      );
+
+      const [documents, results] = await Promise.all([
+        this.repository.findAll(
+          trashQuery,
+          {
+            sort: { deletedAt: -1, _id: -1 },
+            skip: (finalPage - 1) * finalLimit,
+            limit: finalLimit,
+          },
+          true,
+        ),
+        this.repository.countDocuments(trashQuery, {}, true),
+      ]);
+
+      const totalPages = Math.ceil(results / finalLimit);
+      const remaining = results - finalPage * finalLimit;
+
+      return {
+        success: true,
+        meta: {
+          results,
+          page: finalPage,
+          limit: finalLimit,
+          totalPages,
+          remainingItems: remaining > 0 ? remaining : 0,
+          pageItemsCount: documents.length,
+        },
+        data: {
+          docs: this.hideForbiddenFields(documents),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({ code: 'DATABASE_ERROR', message: (error as Error).message }),
+      };
+    }
+  }
+
+  /**
+   * Permanently deletes the trashed documents matching the filter. Live
+   * documents are never matched.
+   */
+  async purge(
+    filter: FilterQuery<T> = {},
+  ): Promise<SuccessResponseType<{ purged: number }> | ErrorResponseType> {
+    if (!this.config.softDelete) {
+      return this.notSoftDeleted();
+    }
+
+    try {
+      await this.authorize('delete');
+      const context = this.createHookContext('purge', { filter });
+      await this.executeHook('beforeBulkDelete', context);
+      const scopedFilter = combineFilters(
+        await this.scopeQuery('delete', context.filter ?? {}),
+        { deletedAt: { $ne: null } },
+      ) as FilterQuery<T>;
+
+      const purged = await this.deleteManyWithRelations(scopedFilter, false);
+      await this.invalidateCache();
+      context.result = purged;
+      await this.executeHook('afterBulkDelete', context);
+      this.emitEvent('bulkDeleted', 'purge', {
+        filter: scopedFilter,
+        count: purged,
+        softDelete: false,
+      });
+
+      return { success: true, data: { purged } };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({ code: 'PURGE_ERROR', message: (error as Error).message }),
+      };
+    }
+  }
+
+  private async purgeDocuments(
+    ids: Types.ObjectId[],
+    cutoff: Date,
+    failed: Types.ObjectId[],
+  ): Promise<number> {
+    // Documents restored in the meantime are left alone
+    const expired = { deletedAt: { $lt: cutoff } };
+    const isReferenced = (error: unknown) =>
+      (error as { code?: unknown } | null)?.code === 'REFERENCE_CONSTRAINT';
+    try {
+      return await this.deleteManyWithRelations(
+        { _id: { $in: ids }, ...expired } as FilterQuery<T>,
+        false,
+      );
+    } catch (error) {
+      if (!isReferenced(error)) throw error;
+    }
+
+    // One by one, so that a referenced document does not block the others
+    let purged = 0;
+    for (const id of ids) {
+      try {
+        purged += await this.deleteManyWithRelations(
+          { _id: id, ...expired } as FilterQuery<T>,
+          false,
+        );
+      } catch (error) {
+        if (!isReferenced(error)) throw error;
+        failed.push(id);
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Permanently deletes the documents trashed longer than the retention
+   * period, in batches. Meant to be run by a scheduler, so access rules and
+   * hooks do not apply. Without a tenant context, every tenant is purged.
+   */
+  async purgeExpired(
+    options: { batchSize?: number } = {},
+  ): Promise<SuccessResponseType<PurgeReport> | ErrorResponseType> {
+    const model = this.repository.getModel() as Model<T> & {
+      getTenantField?: () => string;
+      getCurrentTenantId?: () => unknown;
+    };
+    const hasTenant = (model.getCurrentTenantId?.() ?? null) !== null;
+    if (model.getTenantField && !hasTenant && !getTenantBypass()) {
+      return runWithoutTenantScope('Purge of expired trash', () => this.purgeExpired(options));
+    }
+
+    const { retentionDays } = this.config;
+    if (!this.config.softDelete || retentionDays === null) {
+      return {
+        success: false,
+        error: new ErrorResponse({
+          code: 'OPERATION_NOT_SUPPORTED',
+          message: 'No trash retention period is configured for this service.',
+          suggestions: ['Set softDelete.retentionDays in the service configuration.'],
+        }),
+      };
+    }
+
+    try {
+      const batchSize = options.batchSize ?? 500;
+      const cutoff = new Date(Date.now() - retentionDays * DAY_IN_MS);
+      const report: PurgeReport = { cutoff, batches: 0, purged: 0, failed: [] };
+      let lastId: Types.ObjectId | undefined;
+
+      // Batches follow _id, so documents that could not be purged are not read again
+      for (;;) {
+        const batch = await this.repository.findAll(
+          {
+            deletedAt: { $lt: cutoff },
+            ...(lastId && { _id: { $gt: lastId } }),
+          } as FilterQuery<T>,
+          { projection: { _id: 1 }, sort: { _id: 1 }, limit: batchSize },
+          true,
+        );
+        if (!batch.length) break;
+
+        const ids = batch.map((doc) => doc._id as Types.ObjectId);
+        lastId = ids[ids.length - 1];
+        report.batches++;
+        report.purged += await this.purgeDocuments(ids, cutoff, report.failed);
+      }
+
+      if (report.purged) {
+        await this.invalidateCache();
+        this.emitEvent('bulkDeleted', 'purgeExpired', {
+          filter: { deletedAt: { $lt: cutoff } } as FilterQuery<T>,
+          count: report.purged,
+          softDelete: false,
+        });
+      }
+
+      return { success: true, data: report };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof ErrorResponse
+            ? error
+            : new ErrorResponse({ code: 'PURGE_ERROR', message: (error as Error).message }),
+      };
+    }
+  }
+
   /**
    * NOTE
    * batch and bulk peuvent sembler similaire ou redondant mais
    * 
    * Bulk : Opération sur tous les documents qui correspondent à un même filtre
-   * Batch : Plusieurs opérations différentes dans une seule transaction
+   * Batch : Plusieurs opérations différentes, exécutées dans une seule
+   * transaction lorsque l'option `transaction: true` est passée
    * 
    */
 }
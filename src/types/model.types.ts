@@ -8,3 +8,76 @@ export interface IBaseModel extends Document {
   __version__?: number;
   [key: string]: any;
 }
+
+export interface TextIndexConfig {
+  fields?: string[];
+  weightedFields?: Record<string, number>;
+  language?: string;
+  languageOverride?: string;
+}
+
+export interface TenantConfig {
+  field?: string;
+  contextKey?: string;
+  type?: any;
+  scopeUniqueIndexes?: boolean;
+}
+
+export interface EncryptionKeyProvider {
+  getCurrentKeyId(): string;
+  getKey(keyId: string): Buffer;
+  getKeyIds?(): string[];
+}
+
+export interface EncryptedFieldOptions {
+  deterministic?: boolean;
+}
+
+export interface EncryptionConfig {
+  fields: Record<string, EncryptedFieldOptions | true>;
+  keyProvider: EncryptionKeyProvider;
+}
+
+export interface FuzzySearchConfig {
+  fields: string[];
+}
+
+export interface HistoryConfig {
+  collection?: string;
+  ttlDays?: number;
+  maxEntriesPerDocument?: number;
+}
+
+export type OutboxEventType = 'created' | 'updated' | 'deleted' | 'restored';
+
+export type OutboxStatus = 'pending' | 'processing' | 'dispatched' | 'deadLettered';
+
+export interface OutboxConfig {
+  events?: OutboxEventType[];
+  payload?: (document: Record<string, any>, eventType: OutboxEventType) => Record<string, any>;
+}
+
+export interface OutboxEvent {
+  _id: unknown;
+  aggregateType: string;
+  aggregateId: unknown;
+  eventType: OutboxEventType;
+  payload: Record<string, any>;
+  attempts: number;
+  createdAt: Date;
+}
+
+export interface OutboxDispatcherOptions {
+  transport: (event: OutboxEvent) => Promise<void> | void;
+  batchSize?: number;
+  maxAttempts?: number;
+  backoff?: (attempt: number) => number;
+  lockTimeout?: number;
+  pollInterval?: number;
+}
+
+export interface OutboxDispatchReport {
+  dispatched: number;
+  retried: number;
+  deadLettered: number;
+}
@@ -1,20 +1,80 @@
-import { FilterQuery, PipelineStage, QueryOptions, Types, UpdateQuery } from "mongoose";
+import { ClientSession, Cursor, FilterQuery, PipelineStage, QueryOptions, Types, UpdateQuery } from "mongoose";
+
+export interface TransactionContext {
+    session: ClientSession;
+    afterCommit?: Array<() => Promise<void> | void>;
+  }
+
+export type VersionedQueryOptions = QueryOptions & {
+    expectedVersion?: number;
+  };
+
+export type ChangeEventType =
+  | 'insert'
+  | 'update'
+  | 'replace'
+  | 'delete'
+  | 'softDelete'
+  | 'restore';
+
+export interface ChangeEvent<T> {
+    type: ChangeEventType;
+    documentId: Types.ObjectId;
+    document: T | null;
+    updatedFields?: Record<string, any>;
+    removedFields?: string[];
+    resumeToken: unknown;
+    clusterTime?: Date;
+  }
+
+export interface ResumeTokenStore {
+    load(key: string): Promise<unknown | undefined>;
+    save(key: string, token: unknown): Promise<void>;
+  }
+
+export interface WatchOptions {
+    includeDeleted?: boolean;
+    ignoreDeletes?: boolean;
+    resumeAfter?: unknown;
+    resumeTokenStore?: ResumeTokenStore;
+    resumeKey?: string;
+    batchSize?: number;
+  }
+
+export interface UpsertResult<T> {
+    document: T;
+    inserted: boolean;
+  }
+
+export interface BulkUpsertOptions {
+    keyFields: string[];
+  }
+
+export interface BulkUpsertReport<T> {
+    docs: T[];
+    inserted: Types.ObjectId[];
+    modified: Types.ObjectId[];
+  }
 
 export interface IBaseRepository<T> {
     create(input: Partial<T>): Promise<T>;
     createMany(items: Partial<T>[], ordered?: boolean): Promise<T[]>;
     findAll(query?: FilterQuery<T>, options?: QueryOptions, includeDeleted?: boolean): Promise<T[]>;
-    findById(id: string | Types.ObjectId, includeDeleted?: boolean): Promise<T | null>;
+    findById(id: string | Types.ObjectId, includeDeleted?: boolean, options?: QueryOptions): Promise<T | null>;
     findOne(query: FilterQuery<T>, options?: QueryOptions, includeDeleted?: boolean): Promise<T | null>;
-    update(query: FilterQuery<T>, update: UpdateQuery<T>, options?: QueryOptions, includeDeleted?: boolean): Promise<T | null>;
-    updateById(id: string | Types.ObjectId, update: UpdateQuery<T>, options?: QueryOptions): Promise<T | null>;
+    findCursor(query?: FilterQuery<T>, options?: QueryOptions, includeDeleted?: boolean): Cursor<T, QueryOptions>;
+    update(query: FilterQuery<T>, update: UpdateQuery<T>, options?: VersionedQueryOptions, includeDeleted?: boolean): Promise<T | null>;
+    updateById(id: string | Types.ObjectId, update: UpdateQuery<T>, options?: VersionedQueryOptions): Promise<T | null>;
     updateMany(filter: FilterQuery<T>, update: UpdateQuery<T>): Promise<number>;
+    upsert(filter: FilterQuery<T>, update: UpdateQuery<T>, options?: QueryOptions): Promise<UpsertResult<T>>;
+    bulkUpsert(items: Partial<T>[], options: BulkUpsertOptions): Promise<BulkUpsertReport<T>>;
     delete(query: FilterQuery<T>, options?: QueryOptions, softDelete?: boolean): Promise<T | null>;
-    deleteById(id: string | Types.ObjectId, softDelete?: boolean): Promise<T | null>;
-    deleteMany(filter: FilterQuery<T>, softDelete?: boolean): Promise<number>;
-    restore(query: FilterQuery<T>): Promise<T | null>;
-    restoreById(id: string | Types.ObjectId): Promise<T | null>;
+    deleteById(id: string | Types.ObjectId, softDelete?: boolean, options?: QueryOptions): Promise<T | null>;
+    deleteMany(filter: FilterQuery<T>, softDelete?: boolean, options?: QueryOptions): Promise<number>;
+    restore(query: FilterQuery<T>, options?: QueryOptions): Promise<T | null>;
+    restoreById(id: string | Types.ObjectId, options?: QueryOptions): Promise<T | null>;
     countDocuments(query?: FilterQuery<T>,options?: { limit?: number; skip?: number }, includeDeleted?: boolean): Promise<number>;
     exists(filter: FilterQuery<T>, includeDeleted?: boolean): Promise<boolean>;
     aggregate(pipeline: PipelineStage[]): Promise<any[]>;
+    watch(filter?: FilterQuery<T>, options?: WatchOptions): AsyncGenerator<ChangeEvent<T>>;
   }
\ No newline at end of file
@@ -1,5 +1,7 @@
-import { FilterQuery, PipelineStage } from "mongoose";
-import { slugify } from "../utils";
+import { ClientSession, FilterQuery, Model, PipelineStage, Types, UpdateQuery } from "mongoose";
+import { FieldDiff, slugify } from "../utils";
+
+export type PaginationMode = 'offset' | 'cursor';
 
 export interface PaginationConfig {
     defaultLimit: number;
@@ -7,16 +9,28 @@ export interface PaginationConfig {
     defaultPage: number;
   }
   
+  export type SearchMode = 'regex' | 'text';
+
   export interface SearchConfig<T> {
     enabled: boolean;
+    mode: SearchMode;
     fields: (keyof T)[];
     caseSensitive: boolean;
     fuzzySearch: boolean;
+    fuzzyThreshold: number;
+    fuzzyCandidateLimit: number;
+    /**
+     * @deprecated Weights are not applied by the service, set them with the
+     * `textIndex.weightedFields` schema option.
+     */
     weightedFields: Partial<Record<keyof T, number>>;
+    language?: string;
   }
   
+  export type FieldOperatorPolicy<T> = Partial<Record<keyof T, true | string[]>>;
+
   export interface FilterConfig<T> {
-    allowedFields: (keyof T)[];
+    allowedFields: (keyof T)[] | FieldOperatorPolicy<T>;
     defaultSort: Record<string, 1 | -1>;
     customFilters: Record<string, (value: any) => FilterQuery<T>>;
   }
@@ -43,38 +57,216 @@ export interface PaginationConfig {
     defaultPopulate: boolean;
   };
   
+  export interface ValidationIssue {
+    path: string;
+    code: string;
+    message: string;
+  }
+
+  export type ValidationMode = 'create' | 'update';
+
+  /**
+   * Adapter around a schema library. Updates are validated with `partial`
+   * set, so that fields missing from the input are not reported.
+   */
+  export interface SchemaValidator<T = any> {
+    validate(
+      document: Partial<T>,
+      options: {
+        mode: ValidationMode;
+        partial: boolean;
+        // Objects of which an update only sets some paths
+        partialPaths?: string[];
+        // Paths removed by an update
+        unsetPaths?: string[];
+      },
+    ): Promise<ValidationIssue[]> | ValidationIssue[];
+  }
+
+  export type JsonSchemaType =
+    | 'string'
+    | 'number'
+    | 'integer'
+    | 'boolean'
+    | 'object'
+    | 'array'
+    | 'null';
+
+  export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: unknown[];
+    const?: unknown;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: 'email' | 'date' | 'date-time' | 'uri' | 'objectId';
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+  }
+
+  // A string is the message of a failed validation
+  export type CustomValidator<T> = (
+    value: any,
+    document: Partial<T>,
+  ) => Promise<boolean | string> | boolean | string;
+
   export interface ValidationConfig<T> {
-    customValidators: Partial<
-      Record<
-        keyof T,
-        (value: any, document: Partial<T>) => Promise<boolean> | boolean
-      >
-    >;
+    customValidators: Partial<Record<keyof T, CustomValidator<T>>>;
+    schema?:
+      | SchemaValidator<T>
+      | { create?: SchemaValidator<T>; update?: SchemaValidator<T> };
     preValidate?: (document: Partial<T>) => Promise<void> | void;
     postValidate?: (document: Partial<T>) => Promise<void> | void;
   }
   
-  export interface HooksConfig<T> {
-    beforeCreate?: (document: Partial<T>) => Promise<void> | void;
-    afterCreate?: (document: T) => Promise<void> | void;
-    beforeUpdate?: (
+  export interface HookAbortOptions {
+    code?: string;
+    statusCode?: number;
+    suggestions?: string[];
+  }
+
+  export interface HookContext<T = any> {
+    operation: string;
+    session?: ClientSession;
+    user?: unknown;
+    userId?: unknown;
+    input?: any;
+    filter?: FilterQuery<T>;
+    original?: T | null;
+    document?: T | null;
+    diff?: FieldDiff[];
+    result?: any;
+    state: Record<string, any>;
+    abort(message: string, options?: HookAbortOptions): never;
+  }
+
+  type HookResult = Promise<void> | void;
+
+  export interface HookHandlers<T> {
+    beforeCreate: (document: Partial<T>, context: HookContext<T>) => HookResult;
+    afterCreate: (document: T, context: HookContext<T>) => HookResult;
+    beforeUpdate: (
       document: T,
       updateData: Partial<T>,
-    ) => Promise<void> | void;
-    afterUpdate?: (document: T) => Promise<void> | void;
-    beforeDelete?: (document: T) => Promise<void> | void;
-    afterDelete?: (document: T) => Promise<void> | void;
+      context: HookContext<T>,
+    ) => HookResult;
+    afterUpdate: (document: T, context: HookContext<T>) => HookResult;
+    beforeDelete: (document: T, context: HookContext<T>) => HookResult;
+    afterDelete: (document: T, context: HookContext<T>) => HookResult;
+    beforeRestore: (document: T, context: HookContext<T>) => HookResult;
+    afterRestore: (document: T, context: HookContext<T>) => HookResult;
+    beforeFind: (filter: FilterQuery<T>, context: HookContext<T>) => HookResult;
+    afterFind: (result: T | T[], context: HookContext<T>) => HookResult;
+    beforeBulkCreate: (documents: Partial<T>[], context: HookContext<T>) => HookResult;
+    afterBulkCreate: (documents: T[], context: HookContext<T>) => HookResult;
+    beforeBulkUpdate: (
+      filter: FilterQuery<T>,
+      update: UpdateQuery<T>,
+      context: HookContext<T>,
+    ) => HookResult;
+    afterBulkUpdate: (count: number, context: HookContext<T>) => HookResult;
+    beforeBulkDelete: (filter: FilterQuery<T>, context: HookContext<T>) => HookResult;
+    afterBulkDelete: (count: number, context: HookContext<T>) => HookResult;
+    beforeBulkRestore: (filter: FilterQuery<T>, context: HookContext<T>) => HookResult;
+    afterBulkRestore: (count: number, context: HookContext<T>) => HookResult;
+  }
+
+  export type HookEvent = keyof HookHandlers<any>;
+
+  export type HooksConfig<T> = {
+    [K in HookEvent]?: HookHandlers<T>[K] | HookHandlers<T>[K][];
+  };
+
+  export interface HookOptions {
+    priority?: number;
   }
   
+  export type ServiceEventName =
+    | 'created'
+    | 'updated'
+    | 'deleted'
+    | 'restored'
+    | 'bulkUpdated'
+    | 'bulkDeleted';
+
+  export interface ServiceEventMetadata {
+    modelName: string;
+    operation: string;
+    user?: unknown;
+    userId?: unknown;
+    timestamp: Date;
+  }
+
+  export interface DocumentEvent<T> extends ServiceEventMetadata {
+    document: T;
+    diff: FieldDiff[];
+  }
+
+  export interface DeletedEvent<T> extends DocumentEvent<T> {
+    softDelete: boolean;
+  }
+
+  export interface BulkUpdatedEvent<T> extends ServiceEventMetadata {
+    filter: FilterQuery<T> | FilterQuery<T>[];
+    update?: UpdateQuery<T> | UpdateQuery<T>[];
+    count: number;
+  }
+
+  export interface BulkDeletedEvent<T> extends ServiceEventMetadata {
+    filter: FilterQuery<T> | FilterQuery<T>[];
+    count: number;
+    softDelete: boolean;
+  }
+
+  export interface ServiceEventMap<T> {
+    created: DocumentEvent<T>;
+    updated: DocumentEvent<T>;
+    deleted: DeletedEvent<T>;
+    restored: DocumentEvent<T>;
+    bulkUpdated: BulkUpdatedEvent<T>;
+    bulkDeleted: BulkDeletedEvent<T>;
+  }
+
+  export type EventHandler<P> = (payload: P) => Promise<void> | void;
+
+  export type CacheSetOptions = {
+    ttl: number;
+    tags: string[];
+  };
+
+  export interface CacheStore {
+    get<V>(key: string): Promise<V | undefined>;
+    set<V>(key: string, value: V, options: CacheSetOptions): Promise<void>;
+    delete(key: string): Promise<void>;
+    invalidateTags(tags: string[]): Promise<void>;
+    clear(): Promise<void>;
+  }
+
   export interface CacheConfig {
     enabled: boolean;
     ttl: number;
     ignoredFields: string[];
+    maxEntries: number;
+    store?: CacheStore;
   }
 
   export type CacheEntry<T> = {
     data: T;
     timestamp: number;
+    expiresAt: number;
+    tags: string[];
   };
   
   export interface AggregationConfig<T> {
@@ -82,6 +274,137 @@ export interface PaginationConfig {
     virtualFields: Partial<Record<keyof T, (document: T) => any>>;
   }
   
+  export type FieldSelection = Record<string, 0 | 1>;
+
+  export interface ProjectionConfig {
+    defaultSelect?: FieldSelection;
+    forbiddenFields: string[];
+  }
+
+  export interface FindAllOptions {
+    query?: Record<string, any>;
+    sort?: Record<string, 1 | -1>;
+    page?: number;
+    limit?: number;
+    searchTerm?: string;
+    paginate?: boolean;
+    includeDeleted?: boolean;
+    populate?: boolean | string[];
+    select?: FieldSelection;
+    pagination?: PaginationMode;
+    after?: string;
+    before?: string;
+  }
+
+  export type ExportFormat = 'csv' | 'tsv' | 'ndjson';
+
+  export interface ExportOptions {
+    include?: string[];
+    exclude?: string[];
+    headers?: Record<string, string>;
+    formatters?: Record<string, (value: any, document: Record<string, any>) => any>;
+    sort?: Record<string, 1 | -1>;
+    includeDeleted?: boolean;
+  }
+
+  export type ImportFormat = 'csv' | 'tsv' | 'ndjson' | 'json';
+
+  export type ImportMode = 'insert' | 'upsert';
+
+  export interface ImportOptions {
+    mode?: ImportMode;
+    upsertKey?: string;
+    mapping?: Record<string, string>;
+    dryRun?: boolean;
+  }
+
+  export type ImportRowError = {
+    code: string;
+    message: string;
+    field?: string;
+  };
+
+  export type ImportRowResult = {
+    row: number;
+    status: 'inserted' | 'updated' | 'failed';
+    id?: Types.ObjectId;
+    errors: ImportRowError[];
+  };
+
+  export type ImportReport = {
+    dryRun: boolean;
+    total: number;
+    inserted: number;
+    updated: number;
+    failed: number;
+    rows: ImportRowResult[];
+  };
+
+  export type AccessAction =
+    | 'read'
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'restore'
+    | 'export'
+    | 'aggregate';
+
+  export interface AccessContext<T> {
+    action: AccessAction;
+    user?: any;
+    userId?: any;
+    document?: T;
+    input?: Record<string, any>;
+  }
+
+  export type AccessRule<T> = (context: AccessContext<T>) => boolean | Promise<boolean>;
+
+  export interface AccessPolicy<T> {
+    allow?: AccessRule<T>;
+    where?: (context: AccessContext<T>) => FilterQuery<T> | Promise<FilterQuery<T>>;
+    writableFields?:
+      | string[]
+      | ((context: AccessContext<T>) => string[] | Promise<string[]>);
+  }
+
+  export type AccessConfig<T> = Partial<
+    Record<AccessAction, AccessRule<T> | AccessPolicy<T>>
+  >;
+
+  export type RelationDeleteAction = 'cascade' | 'restrict' | 'setNull';
+
+  export interface RelationConfig {
+    // A model name is resolved on the connection of the service's model
+    model: string | Model<any>;
+    foreignKey: string;
+    onDelete: RelationDeleteAction;
+    // Relations of the child model, followed when its documents are cascaded
+    relations?: RelationConfig[];
+  }
+
+  export interface SoftDeleteConfig {
+    enabled?: boolean;
+    // Trashed documents older than this are removed by purgeExpired()
+    retentionDays?: number;
+  }
+
+  export interface TrashListOptions<T> {
+    query?: FilterQuery<T>;
+    deletedBy?: string | Types.ObjectId;
+    deletedBefore?: Date;
+    deletedAfter?: Date;
+    page?: number;
+    limit?: number;
+  }
+
+  export interface PurgeReport {
+    cutoff: Date;
+    batches: number;
+    purged: number;
+    // Documents kept because of a `restrict` relation
+    failed: Types.ObjectId[];
+  }
+
   export interface ServiceConfig<T> {
     pagination?: Partial<PaginationConfig>;
     search?: Partial<SearchConfig<T>>;
@@ -92,7 +415,10 @@ export interface PaginationConfig {
     hooks?: Partial<HooksConfig<T>>;
     cache?: Partial<CacheConfig>;
     aggregation?: Partial<AggregationConfig<T>>;
-    softDelete?: boolean;
+    projection?: Partial<ProjectionConfig>;
+    access?: AccessConfig<T>;
+    relations?: RelationConfig[];
+    softDelete?: boolean | SoftDeleteConfig;
   }
   
   // TODO: Use this later in mergeConfig()
@@ -104,9 +430,12 @@ export interface PaginationConfig {
     },
     search: {
       enabled: false,
+      mode: 'regex',
       fields: [],
       caseSensitive: false,
       fuzzySearch: false,
+      fuzzyThreshold: 0.6,
+      fuzzyCandidateLimit: 500,
       weightedFields: {},
     },
     filter: {
@@ -133,17 +462,23 @@ export interface PaginationConfig {
       enabled: false,
       ttl: 300, // 5 minutes
       ignoredFields: [],
+      maxEntries: 1000,
     },
     aggregation: {
       customPipelines: {},
       virtualFields: {},
     },
+    projection: {
+      forbiddenFields: [],
+    },
+    access: {},
+    relations: [],
     softDelete: true
   };
 
   export type MergedServiceConfig<T> = {
     pagination: Required<PaginationConfig>;
-    search: Required<SearchConfig<T>>;
+    search: SearchConfig<T>;
     filter: Required<FilterConfig<T>>;
     slug: Required<SlugConfig<T>>;
     populate: Required<PopulateConfig>;
@@ -151,5 +486,9 @@ export interface PaginationConfig {
     hooks: HooksConfig<T>;
     cache: Required<CacheConfig>;
     aggregation: Required<AggregationConfig<T>>;
+    projection: ProjectionConfig;
+    access: AccessConfig<T>;
+    relations: RelationConfig[];
     softDelete: boolean;
+    retentionDays: number | null;
   };
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { ErrorResponse } from '@nodesandbox/response-kit';
+
+export const forbidden = (
+  message: string,
+  suggestions: string[] = [],
+): ErrorResponse => {
+  return new ErrorResponse({
+    code: 'FORBIDDEN',
+    message,
+    statusCode: 403,
+    suggestions,
+  });
+};
+
+/**
+ * Lists the paths written by a create input or an update, including the
+ * paths nested under update operators.
+ */
+export const getWrittenPaths = (input: Record<string, any> = {}): string[] => {
+  const paths = Object.entries(input).flatMap(([key, value]) => {
+    if (!key.startsWith('$')) return [key];
+    if (key === '$rename') {
+      return [...Object.keys(value ?? {}), ...Object.values(value ?? {}).map(String)];
+    }
+    return Object.keys(value ?? {});
+  });
+  return Array.from(new Set(paths));
+};
+
+export const isPathAllowed = (path: string, allowedPaths: string[]): boolean => {
+  return allowedPaths.some(
+    (allowed) => path === allowed || path.startsWith(`${allowed}.`),
+  );
+};
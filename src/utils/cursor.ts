@@ -0,0 +1,111 @@
+import { mongo } from 'mongoose';
+
+type SortType = Record<string, 1 | -1>;
+
+type CursorPayload = {
+  fields: string[];
+  values: any[];
+};
+
+export type CursorDirection = 'after' | 'before';
+
+export const buildCursorSort = (sort: SortType): SortType => {
+  const entries = Object.entries(sort).filter(([field]) => field !== '_id');
+  const lastDirection = entries.length ? entries[entries.length - 1][1] : 1;
+  return {
+    ...Object.fromEntries(entries),
+    _id: sort._id ?? lastDirection,
+  };
+};
+
+export const reverseSort = (sort: SortType): SortType => {
+  return Object.fromEntries(
+    Object.entries(sort).map(([field, direction]) => [field, -direction]),
+  ) as SortType;
+};
+
+export const encodeCursor = (
+  sort: SortType,
+  getValue: (field: string) => any,
+): string => {
+  const fields = Object.keys(sort);
+  const payload: CursorPayload = {
+    fields,
+    values: fields.map((field) => getValue(field) ?? null),
+  };
+  return Buffer.from(
+    mongo.BSON.EJSON.stringify(payload, { relaxed: false }),
+  ).toString('base64url');
+};
+
+export const decodeCursor = (cursor: string, sort: SortType): any[] => {
+  let payload: CursorPayload;
+  try {
+    payload = mongo.BSON.EJSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as CursorPayload;
+  } catch {
+    throw new Error('Malformed pagination cursor.');
+  }
+
+  const fields = Object.keys(sort);
+  if (
+    !Array.isArray(payload?.fields) ||
+    !Array.isArray(payload?.values) ||
+    payload.fields.join(',') !== fields.join(',') ||
+    payload.values.length !== fields.length
+  ) {
+    throw new Error('The pagination cursor does not match the requested sort.');
+  }
+
+  // Every document has an _id, it is the tie breaker of the keyset
+  if (payload.values[fields.indexOf('_id')] == null) {
+    throw new Error('The pagination cursor has no position.');
+  }
+
+  return payload.values;
+};
+
+// Null and missing values sort before every other value, and are not matched
+// by range operators
+const buildRangeCondition = (
+  field: string,
+  operator: '$gt' | '$lt',
+  value: any,
+): Record<string, any> | null => {
+  if (value === null || value === undefined) {
+    return operator === '$gt' ? { [field]: { $ne: null } } : null;
+  }
+  return operator === '$gt' || field === '_id'
+    ? { [field]: { [operator]: value } }
+    : { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+};
+
+export const buildKeysetQuery = (
+  sort: SortType,
+  values: any[],
+  direction: CursorDirection = 'after',
+): Record<string, any> => {
+  const fields = Object.keys(sort);
+
+  const conditions = fields.reduce((acc, field, index) => {
+    const forward = sort[field] === 1;
+    const operator = forward === (direction === 'after') ? '$gt' : '$lt';
+    const range = buildRangeCondition(field, operator, values[index]);
+    if (!range) return acc;
+
+    const condition: Record<string, any> = {};
+    fields.slice(0, index).forEach((previousField, previousIndex) => {
+      condition[previousField] = values[previousIndex] ?? null;
+    });
+    acc.push({ ...condition, ...range });
+    return acc;
+  }, [] as Record<string, any>[]);
+
+  // An empty $or is rejected by MongoDB
+  if (!conditions.length) {
+    throw new Error('The pagination cursor has no position.');
+  }
+
+  return { $or: conditions };
+};
@@ -0,0 +1,90 @@
+export type FieldDiff = {
+  path: string;
+  before: any;
+  after: any;
+};
+
+export const isPlainObject = (value: any): value is Record<string, any> => {
+  if (value === null || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+export const isEqualValue = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  // Missing and null values are stored the same way by MongoDB
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isEqualValue(item, b[index]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every((key) => isEqualValue(a[key], b[key]));
+  }
+  if (typeof a === 'object' || typeof b === 'object') {
+    // ObjectId, Decimal128, Buffer... compare by their string form
+    return String(a) === String(b);
+  }
+  return false;
+};
+
+export const diffObjects = (
+  before: Record<string, any> = {},
+  after: Record<string, any> = {},
+  prefix = '',
+): FieldDiff[] => {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const diffs: FieldDiff[] = [];
+
+  keys.forEach((key) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const previous = before?.[key];
+    const next = after?.[key];
+
+    if (isPlainObject(previous) && isPlainObject(next)) {
+      diffs.push(...diffObjects(previous, next, path));
+      return;
+    }
+
+    if (!isEqualValue(previous, next)) {
+      diffs.push({ path, before: previous ?? null, after: next ?? null });
+    }
+  });
+
+  return diffs;
+};
+
+/**
+ * Returns a copy of `value` without the given dotted paths. Dotted keys and
+ * the contents of update operators (as found in history snapshots) are
+ * matched as well.
+ */
+export const omitPaths = (
+  value: Record<string, any>,
+  paths: string[],
+): Record<string, any> => {
+  return Object.entries(value).reduce((acc, [key, nested]) => {
+    if (paths.some((path) => key === path || key.startsWith(`${path}.`))) {
+      return acc;
+    }
+    const nestedPaths = key.startsWith('$')
+      ? paths
+      : paths
+        .filter((path) => path.startsWith(`${key}.`))
+        .map((path) => path.slice(key.length + 1));
+    acc[key] = nestedPaths.length && isPlainObject(nested)
+      ? omitPaths(nested, nestedPaths)
+      : nested;
+    return acc;
+  }, {} as Record<string, any>);
+};
@@ -0,0 +1,163 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import { EncryptionKeyProvider } from '../types';
+import { isPlainObject } from './diff';
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'enc:v1';
+
+// Separate keys are derived for encryption and for deterministic IVs
+const deriveKey = (key: Buffer, purpose: string): Buffer => {
+  return createHmac('sha256', key).update(purpose).digest();
+};
+
+export const createStaticKeyProvider = (
+  keys: Record<string, Buffer | string>,
+  currentKeyId: string,
+): EncryptionKeyProvider => {
+  const buffers = new Map(
+    Object.entries(keys).map(([keyId, key]) => {
+      if (keyId.includes(':')) {
+        throw new Error(`Encryption key id '${keyId}' must not contain ':'.`);
+      }
+      const buffer = Buffer.isBuffer(key) ? key : Buffer.from(key, 'base64');
+      if (buffer.length !== 32) {
+        throw new Error(`Encryption key '${keyId}' must be 32 bytes long.`);
+      }
+      return [keyId, buffer];
+    }),
+  );
+
+  if (!buffers.has(currentKeyId)) {
+    throw new Error(`Unknown current encryption key '${currentKeyId}'.`);
+  }
+
+  return {
+    getCurrentKeyId: () => currentKeyId,
+    getKey: (keyId) => {
+      const key = buffers.get(keyId);
+      if (!key) throw new Error(`Unknown encryption key '${keyId}'.`);
+      return key;
+    },
+    getKeyIds: () => Array.from(buffers.keys()),
+  };
+};
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const isBase64 = (value: string, length?: number): boolean => {
+  return BASE64_PATTERN.test(value)
+    && (length === undefined || Buffer.from(value, 'base64').length === length);
+};
+
+const isKnownKeyId = (keyId: string, keyProvider: EncryptionKeyProvider): boolean => {
+  try {
+    return Boolean(keyProvider.getKey(keyId));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Tells whether a value is shaped like a payload of `encryptValue`. With a
+ * key provider, its key id must also be one of the provider's keys.
+ */
+export const isEncryptedValue = (
+  value: any,
+  keyProvider?: EncryptionKeyProvider,
+): value is string => {
+  if (typeof value !== 'string' || !value.startsWith(`${PREFIX}:`)) return false;
+
+  const segments = value.split(':');
+  const [, , keyId, mode, iv, tag, ciphertext] = segments;
+  return segments.length === 7
+    && ['d', 'r'].includes(mode)
+    && isBase64(iv, 12)
+    && isBase64(tag, 16)
+    && isBase64(ciphertext)
+    && (!keyProvider || isKnownKeyId(keyId, keyProvider));
+};
+
+export const getEncryptionKeyId = (payload: string): string => {
+  return payload.split(':')[2];
+};
+
+/**
+ * Encrypts a value with AES-256-GCM. Deterministic mode derives the IV from
+ * the value so that equal values give equal ciphertexts and can be queried.
+ */
+export const encryptValue = (
+  value: any,
+  keyProvider: EncryptionKeyProvider,
+  deterministic = false,
+  keyId = keyProvider.getCurrentKeyId(),
+): string => {
+  const key = keyProvider.getKey(keyId);
+  const plaintext = JSON.stringify(value);
+  const iv = deterministic
+    ? createHmac('sha256', deriveKey(key, 'iv')).update(plaintext).digest().subarray(0, 12)
+    : randomBytes(12);
+
+  const cipher = createCipheriv(ALGORITHM, deriveKey(key, 'encryption'), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    PREFIX,
+    keyId,
+    deterministic ? 'd' : 'r',
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+};
+
+export const decryptValue = (
+  payload: string,
+  keyProvider: EncryptionKeyProvider,
+): any => {
+  const [, , keyId, , iv, tag, ciphertext] = payload.split(':');
+  const key = keyProvider.getKey(keyId);
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    deriveKey(key, 'encryption'),
+    Buffer.from(iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+
+  return JSON.parse(plaintext);
+};
+
+export const getPathValue = (source: any, path: string): any => {
+  if (!isPlainObject(source)) return undefined;
+  if (path in source) return source[path];
+
+  const key = Object.keys(source).find((candidate) => path.startsWith(`${candidate}.`));
+  return key ? getPathValue(source[key], path.slice(key.length + 1)) : undefined;
+};
+
+/**
+ * Returns a copy of `target` with `fn` applied to the value at `path`. Both
+ * nested objects and dotted keys (as found in updates) are followed.
+ */
+export const mapPathValue = (
+  target: any,
+  path: string,
+  fn: (value: any) => any,
+): any => {
+  if (!isPlainObject(target)) return target;
+  if (path in target) {
+    return { ...target, [path]: fn(target[path]) };
+  }
+
+  const key = Object.keys(target).find((candidate) => path.startsWith(`${candidate}.`));
+  if (!key) return target;
+
+  return {
+    ...target,
+    [key]: mapPathValue(target[key], path.slice(key.length + 1), fn),
+  };
+};
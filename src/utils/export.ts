@@ -0,0 +1,93 @@
+import { Schema } from 'mongoose';
+
+export type DelimitedFormat = 'csv' | 'tsv';
+
+const DELIMITERS: Record<DelimitedFormat, string> = {
+  csv: ',',
+  tsv: '\t',
+};
+
+/**
+ * Lists the leaf paths of a schema, single nested subdocuments are expanded
+ * into dotted paths (`author.name`).
+ */
+export const getSchemaFieldPaths = (schema: Schema, prefix = ''): string[] => {
+  return Object.entries(schema.paths).flatMap(([path, schemaType]) => {
+    const fullPath = prefix ? `${prefix}.${path}` : path;
+    // Hidden paths (`select: false`) are internal and never exported
+    if (schemaType.options?.select === false) return [];
+    if (schemaType instanceof Schema.Types.Subdocument) {
+      return getSchemaFieldPaths(schemaType.schema, fullPath);
+    }
+    return [fullPath];
+  });
+};
+
+const matchesPath = (path: string, field: string): boolean => {
+  return path === field || path.startsWith(`${field}.`);
+};
+
+export const resolveExportFields = (
+  availableFields: string[],
+  { include, exclude = [] }: { include?: string[]; exclude?: string[] } = {},
+): string[] => {
+  const fields = include
+    ? include.flatMap((field) => {
+      const nested = availableFields.filter((path) => matchesPath(path, field));
+      return nested.length ? nested : [field];
+    })
+    : availableFields;
+
+  return fields.filter(
+    (path) => !exclude.some((field) => matchesPath(path, field)),
+  );
+};
+
+export const setPathValue = (
+  target: Record<string, any>,
+  path: string,
+  value: any,
+): Record<string, any> => {
+  const keys = path.split('.');
+  let current = target;
+  keys.slice(0, -1).forEach((key) => {
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key];
+  });
+  current[keys[keys.length - 1]] = value;
+  return target;
+};
+
+const stringifyValue = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value) || value.constructor === Object) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * Formats a single field following RFC 4180: values holding the delimiter,
+ * a quote or a line break are quoted, and quotes are doubled.
+ */
+export const escapeDelimitedValue = (
+  value: any,
+  format: DelimitedFormat = 'csv',
+): string => {
+  const text = stringifyValue(value);
+  const needsQuotes =
+    text.includes(DELIMITERS[format]) || /["\r\n]/.test(text);
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toDelimitedLine = (
+  values: any[],
+  format: DelimitedFormat = 'csv',
+): string => {
+  return `${values
+    .map((value) => escapeDelimitedValue(value, format))
+    .join(DELIMITERS[format])}\r\n`;
+};
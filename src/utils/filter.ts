@@ -0,0 +1,146 @@
+import { ErrorResponse } from '@nodesandbox/response-kit';
+import { FilterConfig } from '../types';
+import { isPlainObject } from './diff';
+
+export const DEFAULT_FILTER_OPERATORS = [
+  '$eq',
+  '$ne',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$in',
+  '$nin',
+  '$exists',
+];
+
+export const LOGICAL_FILTER_OPERATORS = ['$and', '$or', '$nor'];
+
+// Operators running server-side JavaScript are never accepted from a filter
+const FORBIDDEN_FILTER_OPERATORS = ['$where', '$function', '$accumulator'];
+
+export type FilterPolicy = Map<string, string[]>;
+
+export const invalidFilter = (
+  message: string,
+  suggestions: string[] = [],
+): ErrorResponse => {
+  return new ErrorResponse({
+    code: 'INVALID_FILTER',
+    message,
+    statusCode: 400,
+    suggestions,
+  });
+};
+
+/**
+ * Normalizes `allowedFields` into a map of field to allowed operators.
+ * Returns null when no restriction is configured.
+ */
+export const getFilterPolicy = <T>(
+  allowedFields: FilterConfig<T>['allowedFields'] = [],
+): FilterPolicy | null => {
+  const entries: [string, string[]][] = Array.isArray(allowedFields)
+    ? allowedFields.map((field) => [String(field), DEFAULT_FILTER_OPERATORS])
+    : Object.entries(allowedFields).map(([field, operators]) => [
+      field,
+      Array.isArray(operators) ? operators : DEFAULT_FILTER_OPERATORS,
+    ]);
+
+  return entries.length ? new Map(entries) : null;
+};
+
+const assertNoForbiddenOperators = (value: any, path: string): void => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => assertNoForbiddenOperators(item, path));
+    return;
+  }
+  if (!isPlainObject(value)) {
+    return;
+  }
+  Object.entries(value).forEach(([key, nested]) => {
+    if (FORBIDDEN_FILTER_OPERATORS.includes(key)) {
+      throw invalidFilter(`The operator '${key}' is not allowed (${path}).`);
+    }
+    assertNoForbiddenOperators(nested, path);
+  });
+};
+
+const getOperators = (value: any): string[] => {
+  if (!isPlainObject(value)) {
+    return ['$eq'];
+  }
+  const keys = Object.keys(value);
+  const operators = keys.filter((key) => key.startsWith('$'));
+  if (!operators.length) return ['$eq'];
+  if (operators.length !== keys.length) {
+    throw invalidFilter('Operators and plain values cannot be mixed in a field filter.');
+  }
+  return operators;
+};
+
+/**
+ * Checks a client filter against the policy. Top-level fields outside the
+ * policy are dropped, while fields nested in logical operators are rejected
+ * since dropping them would widen the match.
+ */
+export const applyFilterPolicy = (
+  query: Record<string, any>,
+  policy: FilterPolicy | null,
+  strict = false,
+): Record<string, any> => {
+  return Object.entries(query).reduce((acc, [key, value]) => {
+    if (LOGICAL_FILTER_OPERATORS.includes(key)) {
+      if (!Array.isArray(value)) {
+        throw invalidFilter(`The operator '${key}' expects an array of filters.`);
+      }
+      acc[key] = value.map((subQuery) => applyFilterPolicy(subQuery ?? {}, policy, true));
+      return acc;
+    }
+
+    if (key.startsWith('$')) {
+      if (policy || FORBIDDEN_FILTER_OPERATORS.includes(key)) {
+        throw invalidFilter(`The operator '${key}' is not allowed at the root of a filter.`);
+      }
+      assertNoForbiddenOperators(value, key);
+      acc[key] = value;
+      return acc;
+    }
+
+    assertNoForbiddenOperators(value, key);
+
+    if (!policy) {
+      acc[key] = value;
+      return acc;
+    }
+
+    const allowedOperators = policy.get(key);
+    if (!allowedOperators) {
+      if (strict) {
+        throw invalidFilter(`Filtering is not allowed on: ${key}.`);
+      }
+      return acc;
+    }
+
+    const forbidden = getOperators(value).filter(
+      (operator) => !allowedOperators.includes(operator),
+    );
+    if (forbidden.length) {
+      throw invalidFilter(
+        `The operator${forbidden.length > 1 ? 's' : ''} ${forbidden.join(', ')} ${forbidden.length > 1 ? 'are' : 'is'} not allowed on ${key}.`,
+        [`Allowed operators for ${key}: ${allowedOperators.join(', ')}.`],
+      );
+    }
+
+    acc[key] = value;
+    return acc;
+  }, {} as Record<string, any>);
+};
+
+export const combineFilters = (
+  ...filters: Record<string, any>[]
+): Record<string, any> => {
+  const nonEmpty = filters.filter((filter) => filter && Object.keys(filter).length);
+  if (nonEmpty.length <= 1) return nonEmpty[0] ?? {};
+  return { $and: nonEmpty };
+};
@@ -0,0 +1,82 @@
+// Accents of Latin letters are dropped, other marks are part of the word
+export const normalizeSearchText = (text: string): string => {
+  return String(text)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+};
+
+export const tokenizeSearchText = (text: string): string[] => {
+  return normalizeSearchText(text).split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean);
+};
+
+export const getSearchText = (
+  source: Record<string, any>,
+  fields: string[],
+): string => {
+  return fields
+    .map((field) =>
+      field
+        .split('.')
+        .reduce<unknown>((value, key) => (value as Record<string, unknown> | null)?.[key], source),
+    )
+    .filter((value) => value !== null && value !== undefined)
+    .join(' ');
+};
+
+/**
+ * Builds the trigrams of every word, padded like pg_trgm so that short words
+ * and word boundaries still produce tokens.
+ */
+export const buildTrigrams = (text: string): string[] => {
+  const trigrams = new Set<string>();
+  tokenizeSearchText(text).forEach((word) => {
+    // Split by code point so that astral characters are kept whole
+    const padded = Array.from(`  ${word} `);
+    for (let index = 0; index < padded.length - 2; index++) {
+      trigrams.add(padded.slice(index, index + 3).join(''));
+    }
+  });
+  return Array.from(trigrams);
+};
+
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Scores how well a search term matches a text, between 0 and 1. Each word
+ * of the term is matched to its closest word in the text by edit distance.
+ */
+export const fuzzySimilarity = (term: string, text: string): number => {
+  const termWords = tokenizeSearchText(term);
+  const textWords = tokenizeSearchText(text);
+  if (!termWords.length || !textWords.length) return 0;
+
+  const total = termWords.reduce((sum, termWord) => {
+    const best = textWords.reduce((max, textWord) => {
+      const distance = editDistance(termWord, textWord);
+      const score = 1 - distance / Math.max(termWord.length, textWord.length);
+      return Math.max(max, score);
+    }, 0);
+    return sum + best;
+  }, 0);
+
+  return total / termWords.length;
+};
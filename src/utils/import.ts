@@ -0,0 +1,176 @@
+import { StringDecoder } from 'string_decoder';
+import { SchemaType, Types } from 'mongoose';
+import { isPlainObject } from './diff';
+
+export type ImportSource = string | Buffer | AsyncIterable<string | Buffer>;
+
+export const readSourceChunks = async function* (
+  source: ImportSource,
+): AsyncGenerator<string> {
+  if (typeof source === 'string') {
+    yield source;
+    return;
+  }
+  if (Buffer.isBuffer(source)) {
+    yield source.toString('utf8');
+    return;
+  }
+
+  const decoder = new StringDecoder('utf8');
+  for await (const chunk of source) {
+    yield typeof chunk === 'string' ? chunk : decoder.write(chunk);
+  }
+  const rest = decoder.end();
+  if (rest) yield rest;
+};
+
+/**
+ * Parses RFC 4180 records from chunks of text. Quoted fields may hold
+ * delimiters, doubled quotes and line breaks, even across chunk boundaries.
+ */
+export const parseDelimitedRecords = async function* (
+  chunks: AsyncIterable<string>,
+  delimiter = ',',
+): AsyncGenerator<string[]> {
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let pendingQuote = false;
+  let pendingCarriageReturn = false;
+  let started = false;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (pendingCarriageReturn) {
+        pendingCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (pendingQuote) {
+          pendingQuote = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else if (char === '"') {
+          pendingQuote = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && !field) {
+        inQuotes = true;
+        started = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = '';
+        started = true;
+      } else if (char === '\n' || char === '\r') {
+        record.push(field);
+        // Blank lines are skipped rather than read as empty records
+        if (started || record.some(Boolean)) yield record;
+        record = [];
+        field = '';
+        started = false;
+        pendingCarriageReturn = char === '\r';
+      } else {
+        field += char;
+        started = true;
+      }
+    }
+  }
+
+  if (inQuotes && !pendingQuote) {
+    throw new Error('Unterminated quoted field at the end of the source.');
+  }
+  if (started || field) {
+    record.push(field);
+    yield record;
+  }
+};
+
+export const readSourceLines = async function* (
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+  if (buffer.trim()) yield buffer;
+};
+
+export const flattenObject = (
+  source: Record<string, any>,
+  prefix = '',
+): Record<string, any> => {
+  return Object.entries(source).reduce((acc, [key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length) {
+      Object.assign(acc, flattenObject(value, path));
+    } else {
+      acc[path] = value;
+    }
+    return acc;
+  }, {} as Record<string, any>);
+};
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y'];
+const FALSE_VALUES = ['false', '0', 'no', 'n'];
+
+/**
+ * Converts a raw imported value to the type of its schema path. Only strings
+ * are converted, values typed by the source (JSON) are kept as they are.
+ */
+export const coerceImportValue = (
+  value: any,
+  schemaType?: SchemaType,
+): any => {
+  if (typeof value !== 'string' || !schemaType) return value;
+  if (value === '') return undefined;
+
+  switch (schemaType.instance) {
+    case 'Number': {
+      const number = Number(value);
+      if (Number.isNaN(number)) throw new Error(`'${value}' is not a number.`);
+      return number;
+    }
+    case 'Boolean': {
+      const normalized = value.trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return true;
+      if (FALSE_VALUES.includes(normalized)) return false;
+      throw new Error(`'${value}' is not a boolean.`);
+    }
+    case 'Date': {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) throw new Error(`'${value}' is not a date.`);
+      return date;
+    }
+    case 'ObjectId':
+      if (!Types.ObjectId.isValid(value)) {
+        throw new Error(`'${value}' is not a valid ObjectId.`);
+      }
+      return new Types.ObjectId(value);
+    case 'Array':
+    case 'Mixed':
+    case 'Embedded':
+      // Structured values are written as JSON by exports
+      try {
+        return JSON.parse(value);
+      } catch {
+        if (schemaType.instance === 'Array') return value.split(';');
+        throw new Error(`'${value}' is not valid JSON.`);
+      }
+    default:
+      return value;
+  }
+};
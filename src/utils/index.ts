@@ -1,2 +1,14 @@
 export * from "./string";
-export * from "./params";
\ No newline at end of file
+export * from "./params";
+export * from "./transaction";
+export * from "./cursor";
+export * from "./diff";
+export * from "./filter";
+export * from "./export";
+export * from "./import";
+export * from "./fuzzy";
+export * from "./tenant";
+export * from "./access";
+export * from "./encryption";
+export * from "./watch";
+export * from "./validation";
@@ -1,3 +1,8 @@
+import { ErrorResponse } from '@nodesandbox/response-kit';
+import { Schema, SchemaType, Types } from 'mongoose';
+import { FindAllOptions, FieldSelection, ServiceConfig } from '../types';
+import { getFilterPolicy, invalidFilter } from './filter';
+
 type SortType = Record<string, 1 | -1>;
 
 export const parseSortParam = (sortParam: string): SortType => {
@@ -16,3 +21,273 @@ export const parseSortParam = (sortParam: string): SortType => {
 
   return sortObj;
 };
+
+const RESERVED_PARAMS = [
+  'page',
+  'limit',
+  'sort',
+  'search',
+  'fields',
+  'populate',
+  'includeDeleted',
+  'pagination',
+  'after',
+  'before',
+];
+
+const QUERY_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'exists'];
+
+const BRACKET_PARAM = /^([^[\]]+)\[([^[\]]+)\]$/;
+
+const invalidQuery = (message: string): ErrorResponse => {
+  return new ErrorResponse({
+    code: 'INVALID_QUERY',
+    message,
+    statusCode: 400,
+  });
+};
+
+const toSingleValue = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  return String(Array.isArray(value) ? value[value.length - 1] : value);
+};
+
+const toList = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+};
+
+const parseInteger = (name: string, value: unknown): number | undefined => {
+  const raw = toSingleValue(value);
+  if (raw === undefined || raw === '') return undefined;
+  const parsed = Number(raw);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw invalidQuery(`The "${name}" parameter must be a positive integer.`);
+  }
+  return parsed;
+};
+
+const parseBoolean = (name: string, value: unknown): boolean => {
+  const raw = toSingleValue(value)?.toLowerCase();
+  if (raw === 'true' || raw === '1' || raw === '') return true;
+  if (raw === 'false' || raw === '0') return false;
+  throw invalidQuery(`The "${name}" parameter must be a boolean.`);
+};
+
+const coerceValue = (
+  field: string,
+  value: unknown,
+  schemaType?: SchemaType,
+): any => {
+  const instance =
+    schemaType?.instance === 'Array'
+      ? (schemaType as SchemaType & { caster?: SchemaType }).caster?.instance
+      : schemaType?.instance;
+  const raw = String(value);
+
+  switch (instance) {
+    case 'Number': {
+      const parsed = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(parsed)) {
+        throw invalidQuery(`The value '${raw}' is not a valid number for ${field}.`);
+      }
+      return parsed;
+    }
+    case 'Date': {
+      const parsed = new Date(raw);
+      if (Number.isNaN(parsed.getTime())) {
+        throw invalidQuery(`The value '${raw}' is not a valid date for ${field}.`);
+      }
+      return parsed;
+    }
+    case 'Boolean':
+      return parseBoolean(field, raw);
+    case 'ObjectId':
+      if (!Types.ObjectId.isValid(raw)) {
+        throw invalidQuery(`The value '${raw}' is not a valid id for ${field}.`);
+      }
+      return new Types.ObjectId(raw);
+    default:
+      return raw;
+  }
+};
+
+const parseFilterValue = (
+  field: string,
+  value: unknown,
+  schema?: Schema,
+): any => {
+  const schemaType = schema?.path(field);
+
+  if (Array.isArray(value)) {
+    return { $in: value.map((item) => coerceValue(field, item, schemaType)) };
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce((acc, [operator, operand]) => {
+      if (!QUERY_OPERATORS.includes(operator)) {
+        throw invalidQuery(`The operator '${operator}' is not supported on ${field}.`);
+      }
+      if (operator === 'in' || operator === 'nin') {
+        acc[`$${operator}`] = toList(operand).map((item) =>
+          coerceValue(field, item, schemaType),
+        );
+      } else if (operator === 'exists') {
+        acc.$exists = parseBoolean(`${field}[exists]`, operand);
+      } else {
+        acc[`$${operator}`] = coerceValue(field, toSingleValue(operand), schemaType);
+      }
+      return acc;
+    }, {} as Record<string, any>);
+  }
+
+  return coerceValue(field, value, schemaType);
+};
+
+/**
+ * Turns an HTTP query string into `findAll` options. Filter values are coerced
+ * to the types of the matching `schema` paths, and are kept as strings when no
+ * schema is given. `BaseService.parseListQuery` passes the service's schema.
+ */
+export const parseListQuery = <T>(
+  rawQuery: Record<string, unknown> = {},
+  config: ServiceConfig<T> = {},
+  schema?: Schema,
+): FindAllOptions => {
+  const policy = getFilterPolicy(config.filter?.allowedFields);
+  const allowedFields = policy ? Array.from(policy.keys()) : [];
+  const customFilters = config.filter?.customFilters ?? {};
+  const isAllowed = (field: string) =>
+    !policy || policy.has(field) || field in customFilters;
+
+  // Accept both `price[gte]=10` as parsed by qs and the raw bracket keys
+  const params = Object.entries(rawQuery).reduce((acc, [key, value]) => {
+    const match = key.match(BRACKET_PARAM);
+    if (match) {
+      const [, field, operator] = match;
+      acc[field] = { ...(acc[field] ?? {}), [operator]: value };
+    } else {
+      acc[key] = value;
+    }
+    return acc;
+  }, {} as Record<string, any>);
+
+  const options: FindAllOptions = {};
+
+  const page = parseInteger('page', params.page);
+  if (page !== undefined) options.page = page;
+
+  const limit = parseInteger('limit', params.limit);
+  if (limit !== undefined) options.limit = limit;
+
+  const sortParam = toSingleValue(params.sort);
+  if (sortParam) {
+    const sort = parseSortParam(sortParam);
+    const sortableFields = [
+      ...allowedFields,
+      ...Object.keys(config.filter?.defaultSort ?? {}),
+      ...(config.search?.mode === 'text' ? ['textScore'] : []),
+    ];
+    const forbidden = Object.keys(sort).filter(
+      (field) => allowedFields.length && !sortableFields.includes(field),
+    );
+    if (forbidden.length) {
+      throw invalidFilter(`Sorting is not allowed on: ${forbidden.join(', ')}.`);
+    }
+    options.sort = sort;
+  }
+
+  const search = toSingleValue(params.search);
+  if (search) options.searchTerm = search;
+
+  if (params.fields !== undefined) {
+    const fields = toList(params.fields);
+    const select = fields.reduce((acc, field) => {
+      if (field.startsWith('-')) {
+        acc[field.substring(1)] = 0;
+      } else {
+        acc[field] = 1;
+      }
+      return acc;
+    }, {} as FieldSelection);
+    const modes = new Set(
+      Object.entries(select)
+        .filter(([field]) => field !== '_id')
+        .map(([, mode]) => mode),
+    );
+    if (modes.size > 1) {
+      throw invalidQuery('The "fields" parameter cannot mix included and excluded fields.');
+    }
+    const hiddenFields = (config.projection?.forbiddenFields ?? []).map(String);
+    const notSelectable = Object.keys(select).filter((field) => {
+      if (select[field] === 0 || field === '_id') return false;
+      const root = field.split('.')[0];
+      return (
+        hiddenFields.includes(field) ||
+        hiddenFields.includes(root) ||
+        (policy !== null && !policy.has(field) && !policy.has(root))
+      );
+    });
+    if (notSelectable.length) {
+      throw invalidFilter(`Selecting is not allowed on: ${notSelectable.join(', ')}.`);
+    }
+    if (fields.length) options.select = select;
+  }
+
+  if (params.populate !== undefined) {
+    const raw = toSingleValue(params.populate)?.toLowerCase();
+    if (raw === 'true' || raw === 'false' || raw === '1' || raw === '0' || raw === '') {
+      options.populate = parseBoolean('populate', params.populate);
+    } else {
+      const populatable = (config.populate?.fields ?? []).map((field) =>
+        typeof field === 'string' ? field : field.path,
+      );
+      const paths = toList(params.populate);
+      const unknown = paths.filter((path) => !populatable.includes(path));
+      if (unknown.length) {
+        throw invalidQuery(`Cannot populate: ${unknown.join(', ')}.`);
+      }
+      options.populate = paths;
+    }
+  }
+
+  if (params.includeDeleted !== undefined) {
+    options.includeDeleted = parseBoolean('includeDeleted', params.includeDeleted);
+  }
+
+  const pagination = toSingleValue(params.pagination);
+  if (pagination) {
+    if (pagination !== 'offset' && pagination !== 'cursor') {
+      throw invalidQuery('The "pagination" parameter must be "offset" or "cursor".');
+    }
+    options.pagination = pagination;
+  }
+
+  const after = toSingleValue(params.after);
+  if (after) options.after = after;
+
+  const before = toSingleValue(params.before);
+  if (before) options.before = before;
+
+  const filterFields = Object.keys(params).filter(
+    (key) => !RESERVED_PARAMS.includes(key),
+  );
+  const forbiddenFields = filterFields.filter(
+    (field) => field.startsWith('$') || !isAllowed(field),
+  );
+  if (forbiddenFields.length) {
+    throw invalidFilter(`Filtering is not allowed on: ${forbiddenFields.join(', ')}.`);
+  }
+
+  options.query = filterFields.reduce((acc, field) => {
+    acc[field] = field in customFilters
+      ? params[field]
+      : parseFilterValue(field, params[field], schema);
+    return acc;
+  }, {} as Record<string, any>);
+
+  return options;
+};
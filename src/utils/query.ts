@@ -0,0 +1,41 @@
+import { Model, Query } from 'mongoose';
+import { combineFilters } from './filter';
+
+type TenantScopedModel = Model<any> & {
+  getTenantFilter?: () => Record<string, any>;
+};
+
+/**
+ * Returns the cast filter of a query for reads made through the driver. Such
+ * reads skip query middleware, so the soft delete condition does not hide
+ * trashed documents. The tenant scope is applied explicitly.
+ */
+export const getRawFilter = (query: Query<any, any>): Record<string, any> => {
+  const model = query.model as TenantScopedModel;
+  return combineFilters(
+    query.cast(model, query.getFilter()),
+    model.getTenantFilter ? model.getTenantFilter() : {},
+  );
+};
+
+// Reads the documents a write query is about to change
+export const findRawDocuments = async (
+  query: Query<any, any>,
+  single: boolean,
+  projection?: Record<string, 0 | 1>,
+): Promise<Record<string, any>[]> => {
+  const { session, sort } = query.getOptions();
+  const filter = getRawFilter(query);
+
+  if (single) {
+    const document = await query.model.collection.findOne(filter, {
+      sort,
+      projection,
+      session: session ?? undefined,
+    });
+    return document ? [document] : [];
+  }
+  return await query.model.collection
+    .find(filter, { projection, session: session ?? undefined })
+    .toArray();
+};
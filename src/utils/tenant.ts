@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AsyncStorageService } from '@nodesandbox/async-storage';
+import { LoggerService } from '@nodesandbox/logger';
+
+type TenantBypass = {
+  reason: string;
+};
+
+const LOGGER = LoggerService.getInstance();
+const ASYNC_STORAGE = AsyncStorageService.getInstance();
+
+const tenantBypassStorage = new AsyncLocalStorage<TenantBypass>();
+
+export const getTenantBypass = (): TenantBypass | undefined => {
+  return tenantBypassStorage.getStore();
+};
+
+/**
+ * Runs `fn` with tenant scoping disabled. Every bypass must give a reason
+ * and is logged with the current user.
+ */
+export const runWithoutTenantScope = <R>(
+  reason: string,
+  fn: () => Promise<R>,
+): Promise<R> => {
+  if (!reason?.trim()) {
+    throw new Error('A reason is required to bypass tenant scoping.');
+  }
+
+  const currentUserId = ASYNC_STORAGE.get('currentUserId');
+  LOGGER.warn(
+    `Tenant scoping bypassed by ${currentUserId ?? 'an anonymous caller'}: ${reason}`,
+  );
+
+  return tenantBypassStorage.run({ reason }, fn);
+};
@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ClientSession } from 'mongoose';
+import { TransactionContext } from '../types';
+
+const transactionStorage = new AsyncLocalStorage<TransactionContext>();
+
+export const getTransactionContext = (): TransactionContext | undefined => {
+  return transactionStorage.getStore();
+};
+
+export const getCurrentSession = (): ClientSession | undefined => {
+  return transactionStorage.getStore()?.session;
+};
+
+export const runInTransactionContext = <R>(
+  context: TransactionContext,
+  fn: () => Promise<R>,
+): Promise<R> => {
+  return transactionStorage.run(context, fn);
+};
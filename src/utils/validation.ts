@@ -0,0 +1,195 @@
+import { JsonSchema, SchemaValidator, ValidationIssue } from '../types';
+import { isEqualValue } from './diff';
+
+const FORMATS: Record<NonNullable<JsonSchema['format']>, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  uri: /^[a-z][a-z\d+.-]*:\S+$/i,
+  objectId: /^[a-f\d]{24}$/i,
+};
+
+const getJsonType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = getJsonType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const joinPath = (path: string, key: string | number): string => {
+  return path ? `${path}.${key}` : String(key);
+};
+
+const validateValue = (
+  value: any,
+  schema: JsonSchema,
+  path: string,
+  partial: boolean,
+  partialPaths: string[] = [],
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const label = path || 'The document';
+  const report = (code: string, message: string, issuePath = path) => {
+    issues.push({ path: issuePath, code, message });
+  };
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      report('INVALID_TYPE', `${label} must be of type ${types.join(' or ')}.`);
+      return issues;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqualValue(value, schema.const)) {
+    report('INVALID_VALUE', `${label} must be ${JSON.stringify(schema.const)}.`);
+  }
+  if (schema.enum && !schema.enum.some((allowed) => isEqualValue(value, allowed))) {
+    report(
+      'INVALID_ENUM',
+      `${label} must be one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}.`,
+    );
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report('TOO_SHORT', `${label} must be at least ${schema.minLength} characters long.`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      report('TOO_LONG', `${label} must be at most ${schema.maxLength} characters long.`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+      report('PATTERN_MISMATCH', `${label} must match the pattern ${schema.pattern}.`);
+    }
+    if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+      report('INVALID_FORMAT', `${label} must be a valid ${schema.format}.`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report('TOO_SMALL', `${label} must be greater than or equal to ${schema.minimum}.`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      report('TOO_SMALL', `${label} must be greater than ${schema.exclusiveMinimum}.`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report('TOO_LARGE', `${label} must be less than or equal to ${schema.maximum}.`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      report('TOO_LARGE', `${label} must be less than ${schema.exclusiveMaximum}.`);
+    }
+    if (schema.multipleOf && !Number.isInteger(value / schema.multipleOf)) {
+      report('NOT_MULTIPLE_OF', `${label} must be a multiple of ${schema.multipleOf}.`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report('TOO_FEW_ITEMS', `${label} must contain at least ${schema.minItems} items.`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      report('TOO_MANY_ITEMS', `${label} must contain at most ${schema.maxItems} items.`);
+    }
+    if (
+      schema.uniqueItems &&
+      value.some((item, index) => value.findIndex((other) => isEqualValue(item, other)) !== index)
+    ) {
+      report('DUPLICATE_ITEMS', `${label} must not contain duplicate items.`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(
+          ...validateValue(item, schema.items!, joinPath(path, index), false, partialPaths),
+        );
+      });
+    }
+  }
+
+  if (getJsonType(value) === 'object') {
+    const properties = schema.properties ?? {};
+
+    // Nested objects are written as a whole, unless an update sets some of
+    // their paths only
+    if (!partial) {
+      (schema.required ?? [])
+        .filter((key) => value[key] === undefined)
+        .forEach((key) => {
+          report('REQUIRED', `${joinPath(path, key)} is required.`, joinPath(path, key));
+        });
+    }
+
+    Object.entries(value).forEach(([key, propertyValue]) => {
+      const propertyPath = joinPath(path, key);
+      const propertyPartial = partialPaths.includes(propertyPath);
+      if (properties[key]) {
+        issues.push(
+          ...validateValue(
+            propertyValue,
+            properties[key],
+            propertyPath,
+            propertyPartial,
+            partialPaths,
+          ),
+        );
+      } else if (schema.additionalProperties === false) {
+        report('UNKNOWN_FIELD', `${propertyPath} is not allowed.`, propertyPath);
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(
+          ...validateValue(
+            propertyValue,
+            schema.additionalProperties,
+            propertyPath,
+            propertyPartial,
+            partialPaths,
+          ),
+        );
+      }
+    });
+  }
+
+  schema.allOf?.forEach((subschema) => {
+    issues.push(...validateValue(value, subschema, path, partial, partialPaths));
+  });
+  if (
+    schema.anyOf &&
+    !schema.anyOf.some(
+      (subschema) => !validateValue(value, subschema, path, partial, partialPaths).length,
+    )
+  ) {
+    report('NO_MATCH', `${label} does not match any of the allowed schemas.`);
+  }
+
+  return issues;
+};
+
+const isRequiredPath = (schema: JsonSchema, path: string): boolean => {
+  const keys = path.split('.');
+  const parent = keys
+    .slice(0, -1)
+    .reduce<JsonSchema | undefined>((current, key) => current?.properties?.[key], schema);
+  return Boolean(parent?.required?.includes(keys[keys.length - 1]));
+};
+
+/**
+ * Built-in adapter for a subset of JSON Schema. Documents are validated in
+ * their JSON form, so dates and ObjectIds are checked as strings.
+ */
+export const createJsonSchemaValidator = <T = any>(
+  schema: JsonSchema,
+): SchemaValidator<T> => ({
+  validate: (document, { partial, partialPaths = [], unsetPaths = [] }) => {
+    const json = JSON.parse(JSON.stringify(document ?? {}));
+    return [
+      ...validateValue(json, schema, '', partial, partialPaths),
+      ...unsetPaths
+        .filter((path) => isRequiredPath(schema, path))
+        .map((path) => ({ path, code: 'REQUIRED', message: `${path} is required.` })),
+    ];
+  },
+});
@@ -0,0 +1,44 @@
+import { Connection } from 'mongoose';
+import { ResumeTokenStore } from '../types';
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor'];
+
+/**
+ * Moves the paths of a document filter under `prefix`, so that it can match
+ * the documents embedded in change events.
+ */
+export const prefixFilterPaths = (
+  filter: Record<string, any>,
+  prefix: string,
+): Record<string, any> => {
+  return Object.entries(filter).reduce((acc, [key, value]) => {
+    if (LOGICAL_OPERATORS.includes(key) && Array.isArray(value)) {
+      acc[key] = value.map((condition) => prefixFilterPaths(condition, prefix));
+    } else if (key.startsWith('$')) {
+      throw new Error(`Operator ${key} is not supported in watch filters.`);
+    } else {
+      acc[`${prefix}.${key}`] = value;
+    }
+    return acc;
+  }, {} as Record<string, any>);
+};
+
+export const createCollectionResumeTokenStore = (
+  connection: Connection,
+  collectionName = 'resume_tokens',
+): ResumeTokenStore => {
+  const collection = connection.collection<{ _id: string; token: unknown; updatedAt: Date }>(
+    collectionName,
+  );
+
+  return {
+    load: async (key) => (await collection.findOne({ _id: key }))?.token,
+    save: async (key, token) => {
+      await collection.updateOne(
+        { _id: key },
+        { $set: { token, updatedAt: new Date() } },
+        { upsert: true },
+      );
+    },
+  };
+};
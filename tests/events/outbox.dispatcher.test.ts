@@ -0,0 +1,55 @@
+import { OutboxDispatcher } from '../../src/events';
+import { OutboxModelSingleton } from '../../src/models/plugins/outbox.plugin';
+import { OutboxEvent } from '../../src/types';
+import { useDatabase } from '../helpers/database';
+import { createTodoService } from '../helpers/todo';
+
+const { model } = createTodoService('DispatchedTodo', { schema: { outbox: true } });
+const OutboxModel = OutboxModelSingleton.getModel(model.db);
+
+describe('OutboxDispatcher', () => {
+  useDatabase();
+
+  it('delivers the events of a document in order', async () => {
+    const delivered: string[] = [];
+    const dispatcher = new OutboxDispatcher(model.db, {
+      transport: (event: OutboxEvent) => {
+        delivered.push(event.eventType);
+      },
+    });
+    const todo = await model.create({ name: 'a' });
+    await model.updateOne({ _id: todo._id }, { $set: { name: 'b' } });
+
+    await dispatcher.dispatchPending();
+    await dispatcher.dispatchPending();
+
+    expect(delivered).toEqual(['created', 'updated']);
+  });
+
+  it('holds back later events behind a dead-lettered one until it is retried', async () => {
+    let failing = true;
+    const delivered: string[] = [];
+    const dispatcher = new OutboxDispatcher(model.db, {
+      maxAttempts: 1,
+      transport: (event: OutboxEvent) => {
+        if (failing && event.eventType === 'created') throw new Error('unavailable');
+        delivered.push(event.eventType);
+      },
+    });
+    const todo = await model.create({ name: 'a' });
+    await model.updateOne({ _id: todo._id }, { $set: { name: 'b' } });
+
+    expect(await dispatcher.dispatchPending()).toMatchObject({ deadLettered: 1 });
+    expect(await dispatcher.dispatchPending()).toMatchObject({ dispatched: 0 });
+    expect(delivered).toEqual([]);
+
+    failing = false;
+    const [deadLetter] = await dispatcher.listDeadLetters();
+    expect(await dispatcher.retryDeadLetter(deadLetter._id)).toBe(true);
+    await dispatcher.dispatchPending();
+    await dispatcher.dispatchPending();
+
+    expect(delivered).toEqual(['created', 'updated']);
+    expect(await OutboxModel.countDocuments({ status: 'dispatched' })).toBe(2);
+  });
+});
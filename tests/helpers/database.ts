@@ -0,0 +1,28 @@
+import { randomUUID } from 'crypto';
+import mongoose from 'mongoose';
+
+/**
+ * Connects the default mongoose connection to a database of its own for the
+ * current test file, and empties every collection between tests.
+ */
+export const useDatabase = (): void => {
+  beforeAll(async () => {
+    await mongoose.connect(process.env.MONGO_URI!, {
+      dbName: `test_${randomUUID().replace(/-/g, '')}`,
+    });
+    await Promise.all(
+      Object.values(mongoose.models).map((model) => model.createCollection()),
+    );
+    await Promise.all(Object.values(mongoose.models).map((model) => model.init()));
+  });
+
+  afterEach(async () => {
+    const collections = await mongoose.connection.db!.collections();
+    await Promise.all(collections.map((collection) => collection.deleteMany({})));
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+};
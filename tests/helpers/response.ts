@@ -0,0 +1,14 @@
+type ServiceResponse = { success: boolean; data?: any; error?: unknown };
+
+// Fails the test with the service error instead of an unrelated assertion
+export const expectSuccess = <D = any>(response: ServiceResponse): D => {
+  if (!response.success) {
+    throw response.error;
+  }
+  return response.data as D;
+};
+
+export const expectFailure = (response: ServiceResponse): any => {
+  expect(response.success).toBe(false);
+  return response.error;
+};
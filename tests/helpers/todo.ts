@@ -0,0 +1,52 @@
+import { Schema } from 'mongoose';
+import { BaseModel, createBaseSchema, IBaseModel } from '../../src/models';
+import { BaseRepository } from '../../src/repositories';
+import { BaseService } from '../../src/services';
+import { ServiceConfig } from '../../src/types';
+
+export interface ITodo extends IBaseModel {
+  name: string;
+  slug?: string;
+  description?: string;
+  completed: boolean;
+  priority: 'low' | 'medium' | 'high';
+  dueDate?: Date;
+  projectId?: unknown;
+}
+
+export class TodoRepository extends BaseRepository<ITodo> {}
+
+export class TodoService extends BaseService<ITodo, TodoRepository> {}
+
+type SchemaOptions = NonNullable<Parameters<typeof createBaseSchema>[1]>;
+
+export const todoDefinition = {
+  name: { type: String, required: true },
+  description: { type: String },
+  completed: { type: Boolean, default: false },
+  priority: { type: String, enum: ['low', 'medium', 'high'], default: 'medium' },
+  dueDate: { type: Date },
+  projectId: { type: Schema.Types.ObjectId, ref: 'Project' },
+};
+
+/**
+ * Registers a todo model under `modelName` and returns it with a repository
+ * and a service built on it. Model names must be unique within a test file.
+ */
+export const createTodoService = (
+  modelName: string,
+  {
+    definition = todoDefinition,
+    schema = {},
+    service = {},
+  }: {
+    definition?: Record<string, any>;
+    schema?: SchemaOptions;
+    service?: ServiceConfig<ITodo>;
+  } = {},
+) => {
+  const todoSchema = createBaseSchema<ITodo>(definition, { modelName, ...schema });
+  const model = new BaseModel<ITodo>(modelName, todoSchema).getModel();
+  const repository = new TodoRepository(model);
+  return { model, repository, service: new TodoService(repository, service) };
+};
@@ -0,0 +1,55 @@
+import { randomBytes } from 'crypto';
+import { useDatabase } from '../helpers/database';
+import { createTodoService } from '../helpers/todo';
+import { createStaticKeyProvider, encryptValue, isEncryptedValue } from '../../src/utils/encryption';
+
+const keyProvider = createStaticKeyProvider({ current: randomBytes(32) }, 'current');
+
+const { model } = createTodoService('EncryptedTodo', {
+  schema: {
+    encryption: {
+      keyProvider,
+      fields: { description: { deterministic: true } },
+    },
+  },
+});
+
+describe('encryption plugin', () => {
+  useDatabase();
+
+  it('stores ciphertext and decrypts it on read', async () => {
+    const todo = await model.create({ name: 'pay', description: 'FR76 1234' });
+
+    const stored = await model.collection.findOne({ _id: todo._id });
+    expect(isEncryptedValue(stored?.description)).toBe(true);
+    expect((await model.findById(todo._id))?.description).toBe('FR76 1234');
+  });
+
+  it('matches deterministic paths with equality operators', async () => {
+    await model.create([
+      { name: 'a', description: 'first' },
+      { name: 'b', description: 'second' },
+    ]);
+
+    const found = await model.find({ description: { $in: ['second'] } }).lean();
+    const others = await model.find({ description: { $ne: 'second' } }).lean();
+
+    expect(found.map((doc) => doc.name)).toEqual(['b']);
+    expect(others.map((doc) => doc.name)).toEqual(['a']);
+  });
+
+  it('encrypts plaintext that looks like a payload', async () => {
+    const forged = encryptValue('x', keyProvider).replace(/[^:]+$/, 'AAAA');
+    const descriptions = ['enc:v1:my notes', forged];
+    const todos = await model.create(
+      descriptions.map((description, index) => ({ name: `todo ${index}`, description })),
+    );
+
+    for (const [index, todo] of todos.entries()) {
+      const description = descriptions[index];
+      const stored = await model.collection.findOne({ _id: todo._id });
+      expect(stored?.description).not.toBe(description);
+      expect((await model.findById(todo._id))?.description).toBe(description);
+    }
+  });
+});
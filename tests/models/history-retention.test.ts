@@ -0,0 +1,51 @@
+import { createBaseSchema } from '../../src/models';
+import { pruneHistory } from '../../src/models/plugins';
+import { useDatabase } from '../helpers/database';
+import { createTodoService, ITodo, todoDefinition } from '../helpers/todo';
+
+const { model, repository } = createTodoService('PrunedTodo', {
+  schema: { history: { collection: 'pruned_todo_histories', maxEntriesPerDocument: 2 } },
+});
+const HistoryModel = repository.getHistoryModel()!;
+
+const entriesOf = (originalId: unknown) =>
+  HistoryModel.find({ originalId }).sort({ createdAt: 1, _id: 1 }).lean();
+
+describe('history retention', () => {
+  useDatabase();
+
+  it('keeps the latest entries of each document when pruned', async () => {
+    const todo = await model.create({ name: 'v1' });
+    for (const name of ['v2', 'v3', 'v4']) {
+      await model.findOneAndUpdate({ _id: todo._id }, { $set: { name } });
+    }
+    expect(await entriesOf(todo._id)).toHaveLength(4);
+
+    const { removed } = await pruneHistory(model);
+
+    expect(removed).toBe(2);
+    const entries = await entriesOf(todo._id);
+    expect(entries.map((entry) => entry.snapshot.name)).toEqual(['v3', 'v4']);
+  });
+
+  it('records the full document for the fields changed by updateMany', async () => {
+    const [todo] = await model.create([{ name: 'a', description: 'kept' }]);
+
+    await model.updateMany({}, { $set: { priority: 'high', dueDate: new Date(0) } });
+
+    const [, entry] = await entriesOf(todo._id);
+    const paths = entry.diff!.map((change) => change.path);
+    expect(paths).toEqual(expect.arrayContaining(['priority', 'dueDate']));
+    expect(paths).not.toContain('description');
+    expect(entry.snapshot).toMatchObject({ name: 'a', description: 'kept', priority: 'high' });
+  });
+
+  it('requires a collection of its own for a TTL', () => {
+    expect(() =>
+      createBaseSchema<ITodo>(todoDefinition, {
+        modelName: 'ExpiringTodo',
+        history: { ttlDays: 30 },
+      }),
+    ).toThrow('collection of its own');
+  });
+});
@@ -0,0 +1,60 @@
+import { useDatabase } from '../helpers/database';
+import { createTodoService } from '../helpers/todo';
+
+const { model, repository } = createTodoService('HistoryTodo');
+const HistoryModel = repository.getHistoryModel()!;
+
+const entriesOf = (originalId: unknown) =>
+  HistoryModel.find({ originalId }).sort({ createdAt: 1, _id: 1 }).lean();
+
+describe('history plugin', () => {
+  useDatabase();
+
+  it('records a create entry with the initial snapshot', async () => {
+    const todo = await model.create({ name: 'write tests' });
+
+    const [entry] = await entriesOf(todo._id);
+    expect(entry.action).toBe('create');
+    expect(entry.modelName).toBe('HistoryTodo');
+    expect(entry.snapshot.name).toBe('write tests');
+  });
+
+  it('records the before and after values of each changed field', async () => {
+    const todo = await model.create({ name: 'draft', priority: 'low' });
+
+    await model.findOneAndUpdate({ _id: todo._id }, { $set: { priority: 'high' } });
+
+    const [, entry] = await entriesOf(todo._id);
+    expect(entry.action).toBe('update');
+    expect(entry.diff).toEqual(
+      expect.arrayContaining([{ path: 'priority', before: 'low', after: 'high' }]),
+    );
+    expect(entry.changes.priority).toBe('high');
+  });
+
+  it('records the resulting values of update operators for updateMany', async () => {
+    const todos = await model.create([{ name: 'a' }, { name: 'b' }]);
+
+    await model.updateMany({}, { $set: { completed: true } });
+
+    for (const todo of todos) {
+      const [, entry] = await entriesOf(todo._id);
+      expect(entry.diff).toEqual(
+        expect.arrayContaining([{ path: 'completed', before: false, after: true }]),
+      );
+    }
+  });
+
+  it('records updates of soft deleted documents', async () => {
+    const todo = await model.create({ name: 'trashed', deletedAt: new Date() });
+
+    await model.updateOne(
+      { _id: todo._id, deletedAt: { $ne: null } },
+      { $set: { description: 'edited in the trash' } },
+    );
+
+    const entries = await entriesOf(todo._id);
+    expect(entries).toHaveLength(2);
+    expect(entries[1].changes.description).toBe('edited in the trash');
+  });
+});
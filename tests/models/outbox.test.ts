@@ -0,0 +1,45 @@
+import { OutboxModelSingleton } from '../../src/models/plugins/outbox.plugin';
+import { useDatabase } from '../helpers/database';
+import { createTodoService } from '../helpers/todo';
+
+const { model } = createTodoService('OutboxTodo', { schema: { outbox: true } });
+const OutboxModel = OutboxModelSingleton.getModel(model.db);
+
+const eventsOf = (aggregateId: unknown) =>
+  OutboxModel.find({ aggregateId }).sort({ createdAt: 1, _id: 1 }).lean();
+
+describe('outbox plugin', () => {
+  useDatabase();
+
+  it('records a created event with the new document', async () => {
+    const todo = await model.create({ name: 'ship' });
+
+    const [event] = await eventsOf(todo._id);
+    expect(event).toMatchObject({ aggregateType: 'OutboxTodo', eventType: 'created' });
+    expect(event.payload.name).toBe('ship');
+  });
+
+  it('captures trashed documents changed by a query', async () => {
+    const todo = await model.create({ name: 'trashed', deletedAt: new Date() });
+
+    await model.updateOne(
+      { _id: todo._id, deletedAt: { $ne: null } },
+      { $set: { deletedAt: null } },
+    );
+
+    const events = await eventsOf(todo._id);
+    expect(events.map((event) => event.eventType)).toEqual(['created', 'restored']);
+  });
+
+  it('records one event per document changed by updateMany', async () => {
+    const [first, second] = await model.create([{ name: 'a' }, { name: 'b' }]);
+
+    await model.updateMany({}, { $set: { completed: true } });
+
+    expect((await eventsOf(first._id)).map((event) => event.eventType)).toEqual([
+      'created',
+      'updated',
+    ]);
+    expect(await eventsOf(second._id)).toHaveLength(2);
+  });
+});
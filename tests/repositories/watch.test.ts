@@ -0,0 +1,54 @@
+import { useDatabase } from '../helpers/database';
+import { createTodoService } from '../helpers/todo';
+
+const { model, repository } = createTodoService('WatchedTodo');
+
+// Change streams only see writes made after they are open
+const nextChange = async (
+  stream: ReturnType<typeof repository.watch>,
+  write: () => Promise<unknown>,
+) => {
+  const pending = stream.next();
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  await write();
+  return (await pending).value;
+};
+
+describe('BaseRepository.watch', () => {
+  useDatabase();
+
+  it('refuses filtered streams without pre-images', async () => {
+    await expect(repository.watch({ priority: 'high' }).next()).rejects.toThrow(
+      /pre-images/,
+    );
+  });
+
+  it('watches filtered streams without deletes when asked to', async () => {
+    const stream = repository.watch({ priority: 'high' }, { ignoreDeletes: true });
+
+    const change = await nextChange(stream, () =>
+      model.create({ name: 'urgent', priority: 'high' }),
+    );
+    await stream.return(undefined);
+
+    expect(change).toMatchObject({ type: 'insert' });
+    expect(change?.document?.name).toBe('urgent');
+  });
+
+  it('reports hard deletes of filtered streams from their pre-image', async () => {
+    await model.db.db!.command({
+      collMod: model.collection.collectionName,
+      changeStreamPreAndPostImages: { enabled: true },
+    });
+    const todo = await model.create({ name: 'urgent', priority: 'high' });
+    const stream = repository.watch({ priority: 'high' });
+
+    const change = await nextChange(stream, () =>
+      model.collection.deleteOne({ _id: todo._id }),
+    );
+    await stream.return(undefined);
+
+    expect(change).toMatchObject({ type: 'delete', documentId: todo._id });
+    expect(change?.document?.name).toBe('urgent');
+  });
+});
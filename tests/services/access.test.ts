@@ -0,0 +1,85 @@
+import { AsyncStorageService } from '@nodesandbox/async-storage';
+import { Types } from 'mongoose';
+import { useDatabase } from '../helpers/database';
+import { expectFailure, expectSuccess } from '../helpers/response';
+import { createTodoService, ITodo } from '../helpers/todo';
+
+const { model, service } = createTodoService('GuardedTodo', {
+  service: {
+    access: {
+      read: { where: ({ userId }) => ({ createdBy: userId }) },
+      update: { writableFields: ['name', 'completed'] },
+      delete: ({ user }) => user?.role === 'admin',
+    },
+  },
+});
+
+const alice = { id: new Types.ObjectId(), role: 'member' };
+const bob = { id: new Types.ObjectId(), role: 'admin' };
+let currentUser: typeof alice | undefined;
+
+describe('access control', () => {
+  useDatabase();
+
+  beforeEach(() => {
+    const storage = AsyncStorageService.getInstance();
+    jest.spyOn(storage, 'get').mockImplementation((key: string) => {
+      if (key === 'currentUser') return currentUser;
+      if (key === 'currentUserId') return currentUser?.id;
+      return undefined;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    currentUser = undefined;
+  });
+
+  it('restricts reads to the rows of the where constraint', async () => {
+    currentUser = alice;
+    await model.create({ name: 'mine' });
+    currentUser = bob;
+    const [other] = await model.create([{ name: 'not mine' }]);
+
+    currentUser = alice;
+    const response = await service.findAll();
+    const { docs } = expectSuccess(response);
+    expect(docs.map((doc: ITodo) => doc.name)).toEqual(['mine']);
+    expect((response as { meta: { total: number } }).meta.total).toBe(1);
+    const cursorPage = await service.findAll({ pagination: 'cursor' });
+    expect((cursorPage as { meta: { total: number } }).meta.total).toBe(1);
+    expect(expectFailure(await service.findById(String(other._id))).code).toBe(
+      'NOT_FOUND_ERROR',
+    );
+  });
+
+  it('rejects denied actions and writes outside the writable fields', async () => {
+    currentUser = alice;
+    const todo = await model.create({ name: 'mine' });
+
+    expect(expectFailure(await service.deleteById(String(todo._id)))).toMatchObject({
+      code: 'FORBIDDEN',
+      statusCode: 403,
+    });
+    expect(
+      expectFailure(await service.updateById(String(todo._id), { priority: 'high' })).code,
+    ).toBe('FORBIDDEN');
+    expectSuccess(await service.updateById(String(todo._id), { completed: true }));
+  });
+
+  it('checks the writable fields of the input left by the hooks', async () => {
+    currentUser = alice;
+    const todo = await model.create({ name: 'mine' });
+    const remove = service.use('beforeUpdate', (document, input) => {
+      input.priority = 'high';
+    });
+
+    const error = expectFailure(
+      await service.updateById(String(todo._id), { completed: true }),
+    );
+    remove();
+
+    expect(error.code).toBe('FORBIDDEN');
+    expect((await model.findById(todo._id))?.completed).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+import { MemoryCacheStore } from '../../src/cache';
+import { useDatabase } from '../helpers/database';
+import { expectSuccess } from '../helpers/response';
+import { createTodoService, ITodo, TodoService } from '../helpers/todo';
+
+class ProbeService extends TodoService {
+  read<R>(key: string, getter: () => Promise<R>): Promise<R> {
+    return this.getCachedData(key, getter);
+  }
+
+  invalidate(): Promise<void> {
+    return this.invalidateCache();
+  }
+}
+
+const store = new MemoryCacheStore(100);
+const { model, repository, service } = createTodoService('CachedTodo', {
+  service: { cache: { enabled: true, store } },
+});
+const probe = new ProbeService(repository, { cache: { enabled: true } });
+
+const readName = async (id: unknown): Promise<string> => {
+  const data = expectSuccess<{ docs: ITodo }>(await service.findById(String(id)));
+  return data.docs.name;
+};
+
+describe('cache', () => {
+  useDatabase();
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await store.clear();
+  });
+
+  it('serves reads from the cache until a write invalidates them', async () => {
+    const todo = await model.create({ name: 'cached' });
+    expect(await readName(todo._id)).toBe('cached');
+
+    await model.collection.updateOne({ _id: todo._id }, { $set: { name: 'bypassed' } });
+    expect(await readName(todo._id)).toBe('cached');
+
+    expectSuccess(await service.updateById(String(todo._id), { name: 'updated' }));
+    expect(await readName(todo._id)).toBe('updated');
+  });
+
+  it('invalidates the cache only once the transaction is committed', async () => {
+    const todo = await model.create({ name: 'before' });
+    await readName(todo._id);
+    const invalidateTags = jest.spyOn(store, 'invalidateTags');
+
+    await service.withTransaction(async () => {
+      const result = await service.updateById(String(todo._id), { name: 'after' });
+      expect(invalidateTags).not.toHaveBeenCalled();
+      return result;
+    });
+
+    expect(invalidateTags).toHaveBeenCalled();
+    expect(await readName(todo._id)).toBe('after');
+  });
+
+  it('does not invalidate the cache for an aborted transaction', async () => {
+    const todo = await model.create({ name: 'kept' });
+    await readName(todo._id);
+    const invalidateTags = jest.spyOn(store, 'invalidateTags');
+
+    await service.withTransaction(async () => {
+      await service.updateById(String(todo._id), { name: 'discarded' });
+      throw new Error('rollback');
+    });
+
+    expect(invalidateTags).not.toHaveBeenCalled();
+    expect(await readName(todo._id)).toBe('kept');
+  });
+
+  it('does not store a read that was in flight during an invalidation', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const stale = probe.read('key', async () => {
+      await gate;
+      return 'stale';
+    });
+    await probe.invalidate();
+    release();
+
+    expect(await stale).toBe('stale');
+    expect(await probe.read('key', async () => 'fresh')).toBe('fresh');
+  });
+
+  it('does not join a read started before an invalidation', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const stale = probe.read('key', async () => {
+      await gate;
+      return 'stale';
+    });
+    await probe.invalidate();
+    const fresh = probe.read('key', async () => 'fresh');
+    release();
+
+    expect(await stale).toBe('stale');
+    expect(await fresh).toBe('fresh');
+  });
+
+  it('keeps changes made by afterFind hooks out of the cache', async () => {
+    const todo = await model.create({ name: 'original' });
+    const hooked = new TodoService(repository, {
+      cache: { enabled: true, store },
+      hooks: {
+        afterFind: (result) => {
+          (Array.isArray(result) ? result : [result]).forEach((doc) => {
+            doc.name = `${doc.name} (seen)`;
+          });
+        },
+      },
+    });
+
+    const first = expectSuccess<{ docs: ITodo }>(await hooked.findById(String(todo._id)));
+    const second = expectSuccess<{ docs: ITodo }>(await hooked.findById(String(todo._id)));
+
+    expect(first.docs.name).toBe('original (seen)');
+    expect(second.docs.name).toBe('original (seen)');
+  });
+});
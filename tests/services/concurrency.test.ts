@@ -0,0 +1,48 @@
+import { useDatabase } from '../helpers/database';
+import { expectFailure, expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const { model, repository, service } = createTodoService('VersionedTodo');
+
+describe('optimistic concurrency', () => {
+  useDatabase();
+
+  it('increments the version on every update', async () => {
+    const todo = await model.create({ name: 'draft' });
+    expect(todo.get('__version__')).toBe(0);
+
+    const { docs } = expectSuccess(
+      await service.updateById(String(todo._id), { name: 'final' }, { expectedVersion: 0 }),
+    );
+
+    expect(docs.get('__version__')).toBe(1);
+  });
+
+  it('rejects updates made against an older version and lists the changed fields', async () => {
+    const todo = await model.create({ name: 'draft', priority: 'low' });
+    expectSuccess(await service.updateById(String(todo._id), { priority: 'high' }));
+
+    const error = expectFailure(
+      await service.updateById(String(todo._id), { name: 'stale' }, { expectedVersion: 0 }),
+    );
+
+    expect(error).toMatchObject({
+      code: 'VERSION_CONFLICT',
+      currentVersion: 1,
+      expectedVersion: 0,
+      changedFields: ['priority'],
+    });
+    expect((await model.findById(todo._id))?.name).toBe('draft');
+  });
+
+  it('leaves trashed documents alone like unversioned updates', async () => {
+    const todo = await model.create({ name: 'trashed', deletedAt: new Date() });
+
+    expect(
+      await repository.updateById(todo._id, { name: 'edited' }, { expectedVersion: 0 }),
+    ).toBeNull();
+    expect((await model.findById(todo._id).setOptions({ includeDeleted: true }))?.name).toBe(
+      'trashed',
+    );
+  });
+});
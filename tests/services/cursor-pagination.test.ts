@@ -0,0 +1,69 @@
+import { useDatabase } from '../helpers/database';
+import { expectFailure, expectSuccess } from '../helpers/response';
+import { createTodoService, ITodo } from '../helpers/todo';
+import { buildCursorSort, encodeCursor } from '../../src/utils/cursor';
+
+const { model, service } = createTodoService('CursorTodo');
+
+const collectPages = async (sort: Record<string, 1 | -1>): Promise<string[]> => {
+  const names: string[] = [];
+  let after: string | undefined;
+  do {
+    const response = await service.findAll({ pagination: 'cursor', limit: 2, sort, after });
+    const data = expectSuccess<{ docs: ITodo[] }>(response);
+    names.push(...data.docs.map((doc) => doc.name));
+    after = (response as { meta: { nextCursor: string | null } }).meta.nextCursor ?? undefined;
+  } while (after);
+  return names;
+};
+
+describe('cursor pagination', () => {
+  useDatabase();
+
+  beforeEach(async () => {
+    await model.create([
+      { name: 'a', dueDate: new Date('2024-01-01') },
+      { name: 'b' },
+      { name: 'c', dueDate: new Date('2024-03-01') },
+      { name: 'd' },
+      { name: 'e', dueDate: new Date('2024-02-01') },
+    ]);
+  });
+
+  it.each([1, -1] as const)('walks every document once when sorting on a nullable field (%p)', async (direction) => {
+    const names = await collectPages({ dueDate: direction });
+
+    expect(names).toHaveLength(5);
+    expect(new Set(names)).toEqual(new Set(['a', 'b', 'c', 'd', 'e']));
+    const dated = names.filter((name) => !['b', 'd'].includes(name));
+    expect(dated).toEqual(direction === 1 ? ['a', 'e', 'c'] : ['c', 'e', 'a']);
+  });
+
+  it('returns the previous page with a before cursor', async () => {
+    const first = await service.findAll({ pagination: 'cursor', limit: 3, sort: { name: 1 } });
+    const { nextCursor } = (first as { meta: { nextCursor: string } }).meta;
+    const second = await service.findAll({
+      pagination: 'cursor',
+      limit: 3,
+      sort: { name: 1 },
+      after: nextCursor,
+    });
+    const { prevCursor } = (second as { meta: { prevCursor: string } }).meta;
+
+    const previous = expectSuccess<{ docs: ITodo[] }>(
+      await service.findAll({ pagination: 'cursor', limit: 3, sort: { name: 1 }, before: prevCursor }),
+    );
+    expect(previous.docs.map((doc) => doc.name)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects crafted cursors without a position', async () => {
+    await model.create({ name: 'a' });
+    const after = encodeCursor(buildCursorSort({ dueDate: 1 }), () => null);
+
+    const error = expectFailure(
+      await service.findAll({ pagination: 'cursor', sort: { dueDate: 1 }, after }),
+    );
+
+    expect(error).toMatchObject({ code: 'INVALID_CURSOR', statusCode: 400 });
+  });
+});
@@ -0,0 +1,57 @@
+import { useDatabase } from '../helpers/database';
+import { expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const { model, service } = createTodoService('EventTodo');
+
+// Handlers run after the response, this waits for pending dispatches
+const flushEvents = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('service events', () => {
+  useDatabase();
+
+  it('emits created and updated with the document diff', async () => {
+    const created = jest.fn();
+    const updated = jest.fn();
+    const offCreated = service.on('created', created);
+    const offUpdated = service.on('updated', updated);
+
+    const { docs } = expectSuccess(await service.create({ name: 'draft' }));
+    expectSuccess(await service.updateById(String(docs._id), { name: 'final' }));
+    await flushEvents();
+    offCreated();
+    offUpdated();
+
+    expect(created).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: 'create', modelName: 'EventTodo' }),
+    );
+    expect(updated.mock.calls[0][0].diff).toEqual(
+      expect.arrayContaining([{ path: 'name', before: 'draft', after: 'final' }]),
+    );
+  });
+
+  it('emits bulkDeleted for bulk and batch deletes', async () => {
+    const bulkDeleted = jest.fn();
+    const bulkUpdated = jest.fn();
+    const offDeleted = service.on('bulkDeleted', bulkDeleted);
+    const offUpdated = service.on('bulkUpdated', bulkUpdated);
+    await model.create([{ name: 'a' }, { name: 'b' }, { name: 'c' }]);
+
+    expectSuccess(await service.bulkDelete({ name: { $in: ['a', 'b'] } }));
+    expectSuccess(await service.batchDelete([{ name: 'c' }], { softDelete: false }));
+    await flushEvents();
+    offDeleted();
+    offUpdated();
+
+    expect(bulkUpdated).not.toHaveBeenCalled();
+    const calls = bulkDeleted.mock.calls.map(([event]) => [
+      event.operation,
+      event.count,
+      event.softDelete,
+    ]);
+    expect(calls).toEqual([
+      ['bulkDelete', 2, true],
+      ['batchDelete', 1, false],
+    ]);
+  });
+});
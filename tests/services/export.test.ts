@@ -0,0 +1,50 @@
+import { Readable } from 'stream';
+import { useDatabase } from '../helpers/database';
+import { expectFailure } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const { model, service } = createTodoService('ExportedTodo', {
+  service: { projection: { forbiddenFields: ['description'] } },
+});
+
+const readAll = async (stream: Readable) => {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
+
+describe('exportStream', () => {
+  useDatabase();
+
+  it('streams the selected columns as csv with headers and formatters', async () => {
+    await model.create({ name: 'say "hi", then leave', priority: 'high' });
+
+    const text = await readAll(
+      service.exportStream({}, 'csv', {
+        include: ['name', 'priority'],
+        headers: { name: 'Title' },
+        formatters: { priority: (value) => String(value).toUpperCase() },
+      }),
+    );
+
+    expect(text).toBe('Title,priority\r\n"say ""hi"", then leave",HIGH\r\n');
+  });
+
+  it('never exports forbidden fields', async () => {
+    await model.create({ name: 'task', description: 'secret' });
+
+    const text = await readAll(service.exportStream({}, 'ndjson'));
+    const [row] = text.trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(row.name).toBe('task');
+    expect(row).not.toHaveProperty('description');
+  });
+
+  it('rejects include and exclude together', async () => {
+    const error = expectFailure(
+      await service.exportData({}, 'csv', { include: ['name'], exclude: ['priority'] }),
+    );
+
+    expect(error.code).toBe('EXPORT_ERROR');
+  });
+});
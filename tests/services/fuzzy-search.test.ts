@@ -0,0 +1,72 @@
+import { useDatabase } from '../helpers/database';
+import { expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+import { TRIGRAMS_FIELD } from '../../src/models/plugins/fuzzy-search.plugin';
+
+const { model, repository, service } = createTodoService('FuzzyTodo', {
+  schema: { fuzzySearch: { fields: ['description'] } },
+  service: { search: { enabled: true, fuzzySearch: true, fields: ['name'] } },
+});
+
+describe('fuzzy search', () => {
+  useDatabase();
+
+  it('scores candidates against the indexed fields', async () => {
+    await model.create([
+      { name: 'first', description: 'restaurant reservation' },
+      { name: 'second', description: 'dentist appointment' },
+    ]);
+
+    const { docs } = expectSuccess(await service.findAll({ searchTerm: 'resturant' }));
+
+    expect(docs.map((doc: { name: string }) => doc.name)).toEqual(['first']);
+    expect(docs[0].get('similarity')).toBeGreaterThan(0.8);
+  });
+
+  it('matches words written in other scripts', async () => {
+    await model.create([
+      { name: 'trip', description: 'поездка в Москву' },
+      { name: 'other', description: 'visit Paris' },
+    ]);
+
+    const { docs } = expectSuccess(await service.findAll({ searchTerm: 'москву' }));
+
+    expect(docs.map((doc: { name: string }) => doc.name)).toEqual(['trip']);
+  });
+
+  it('indexes documents inserted by upserts', async () => {
+    const { document, inserted } = await repository.upsert(
+      { name: 'upserted' },
+      { $set: { description: 'restaurant reservation' } },
+    );
+
+    const stored = await model.collection.findOne({ _id: document._id });
+    expect(inserted).toBe(true);
+    expect(stored?.[TRIGRAMS_FIELD]).toEqual(expect.arrayContaining(['res']));
+  });
+
+  it('reindexes trashed documents updated with includeDeleted', async () => {
+    const todo = await model.create({
+      name: 'trashed',
+      description: 'dentist',
+      deletedAt: new Date(),
+    });
+
+    await model
+      .findOneAndUpdate({ _id: todo._id }, { description: 'restaurant' })
+      .setOptions({ includeDeleted: true });
+
+    const stored = await model.collection.findOne({ _id: todo._id });
+    expect(stored?.[TRIGRAMS_FIELD]).toEqual(expect.arrayContaining(['res']));
+  });
+
+  it('reindexes replaced documents', async () => {
+    const todo = await model.create({ name: 'replaced', description: 'dentist' });
+
+    await model.replaceOne({ _id: todo._id }, { name: 'replaced', description: 'restaurant' });
+
+    const stored = await model.collection.findOne({ _id: todo._id });
+    expect(stored?.[TRIGRAMS_FIELD]).toEqual(expect.arrayContaining(['res']));
+    expect(stored?.[TRIGRAMS_FIELD]).not.toContain('den');
+  });
+});
@@ -0,0 +1,75 @@
+import { useDatabase } from '../helpers/database';
+import { expectFailure, expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const { model, service } = createTodoService('HookedTodo', {
+  service: {
+    hooks: {
+      beforeCreate: (input) => {
+        input.name = input.name?.trim();
+      },
+    },
+  },
+});
+
+describe('hooks', () => {
+  useDatabase();
+
+  it('runs configured hooks and lets them change the input', async () => {
+    const { docs } = expectSuccess(await service.create({ name: '  groceries  ' }));
+
+    expect(docs.name).toBe('groceries');
+  });
+
+  it('runs higher priorities first and stops running removed hooks', async () => {
+    const calls: string[] = [];
+    const removeLow = service.use('beforeCreate', () => {
+      calls.push('low');
+    });
+    const removeHigh = service.use('beforeCreate', () => {
+      calls.push('high');
+    }, { priority: 10 });
+
+    expectSuccess(await service.create({ name: 'first' }));
+    removeHigh();
+    expectSuccess(await service.create({ name: 'second' }));
+    removeLow();
+
+    expect(calls).toEqual(['high', 'low', 'low']);
+  });
+
+  it('shares state between the before and after hooks of an operation', async () => {
+    const todo = await model.create({ name: 'draft' });
+    let seen: unknown;
+    const removeBefore = service.use('beforeUpdate', (document, input, context) => {
+      context.state.previousName = document.name;
+    });
+    const removeAfter = service.use('afterUpdate', (document, context) => {
+      seen = [context.operation, context.state.previousName, document.name];
+    });
+
+    expectSuccess(await service.updateById(String(todo._id), { name: 'final' }));
+    removeBefore();
+    removeAfter();
+
+    expect(seen).toEqual(['updateById', 'draft', 'final']);
+  });
+
+  it('returns aborts as errors without writing', async () => {
+    const todo = await model.create({ name: 'done', completed: true });
+    const remove = service.use('beforeUpdate', (document, input, context) => {
+      if (document.completed) {
+        context.abort('Completed todos cannot be edited.', {
+          code: 'TODO_LOCKED',
+          statusCode: 409,
+        });
+      }
+    });
+
+    const error = expectFailure(await service.updateById(String(todo._id), { name: 'edited' }));
+    remove();
+
+    expect(error).toMatchObject({ code: 'TODO_LOCKED', statusCode: 409 });
+    expect((await model.findById(todo._id))?.name).toBe('done');
+  });
+});
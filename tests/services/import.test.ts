@@ -0,0 +1,84 @@
+import { useDatabase } from '../helpers/database';
+import { expectFailure, expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const beforeCreate = jest.fn();
+const beforeUpdate = jest.fn();
+
+const { model, service } = createTodoService('ImportedTodo', {
+  definition: {
+    name: { type: String, required: true, unique: true },
+    description: { type: String },
+    completed: { type: Boolean, default: false },
+  },
+  service: { hooks: { beforeCreate, beforeUpdate } },
+});
+
+describe('importData', () => {
+  useDatabase();
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('validates the rows of a dry run without running the hooks', async () => {
+    await model.create({ name: 'existing' });
+
+    const report = expectSuccess(
+      await service.importData('name,completed\nexisting,true\nnew,false\n', 'csv', {
+        mode: 'upsert',
+        upsertKey: 'name',
+        dryRun: true,
+      }),
+    );
+
+    expect(report).toMatchObject({ dryRun: true, inserted: 1, updated: 1, failed: 0 });
+    expect(beforeCreate).not.toHaveBeenCalled();
+    expect(beforeUpdate).not.toHaveBeenCalled();
+    expect(await model.countDocuments()).toBe(1);
+  });
+
+  it('runs the hooks of a real import', async () => {
+    expectSuccess(await service.importData('name\nimported\n', 'csv'));
+
+    expect(beforeCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects mappings to system fields', async () => {
+    const error = expectFailure(
+      await service.importData('name,trashed\na,2024-01-01\n', 'csv', {
+        mapping: { trashed: 'deletedAt' },
+      }),
+    );
+
+    expect(error.code).toBe('IMPORT_ERROR');
+    expect(await model.countDocuments()).toBe(0);
+  });
+
+  it('reports system field columns as row errors', async () => {
+    const report = expectSuccess(
+      await service.importData('name,createdBy\na,507f1f77bcf86cd799439011\n', 'csv'),
+    );
+
+    expect(report.failed).toBe(1);
+    expect(report.rows[0].errors).toEqual([
+      expect.objectContaining({ code: 'FORBIDDEN_FIELD', field: 'createdBy' }),
+    ]);
+  });
+
+  it('rejects update operator columns', async () => {
+    const existing = await model.create({ name: 'existing' });
+
+    const report = expectSuccess(
+      await service.importData(
+        'name,$set.createdBy\nexisting,507f1f77bcf86cd799439011\n',
+        'csv',
+        { mode: 'upsert', upsertKey: 'name' },
+      ),
+    );
+
+    expect(report.failed).toBe(1);
+    expect(report.rows[0].errors).toEqual([
+      expect.objectContaining({ code: 'FORBIDDEN_FIELD', field: '$set.createdBy' }),
+    ]);
+    expect((await model.findById(existing._id))?.get('createdBy')).toBeFalsy();
+  });
+});
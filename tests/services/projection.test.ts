@@ -0,0 +1,78 @@
+import { useDatabase } from '../helpers/database';
+import { expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const { model, service } = createTodoService('ProjectedTodo', {
+  service: {
+    projection: { forbiddenFields: ['description'] },
+    aggregation: {
+      customPipelines: { all: () => [{ $match: {} }] },
+      virtualFields: {},
+    },
+  },
+});
+
+describe('forbidden fields', () => {
+  useDatabase();
+
+  it('hides them from write responses without changing the stored document', async () => {
+    const created = expectSuccess(
+      await service.create({ name: 'secret', description: 'internal' }),
+    );
+    expect(created.docs.toJSON().description).toBeUndefined();
+
+    const updated = expectSuccess(
+      await service.updateById(String(created.docs._id), { name: 'renamed' }),
+    );
+    expect(updated.docs.toJSON().description).toBeUndefined();
+
+    const stored = await model.findById(created.docs._id).lean();
+    expect(stored?.description).toBe('internal');
+  });
+
+  it('hides them from cursor pages sorted on them', async () => {
+    await model.create([
+      { name: 'a', description: 'first' },
+      { name: 'b', description: 'second' },
+    ]);
+
+    const first = await service.findAll({
+      pagination: 'cursor',
+      sort: { description: 1 },
+      limit: 1,
+    });
+    expect(expectSuccess(first).docs[0].toJSON().description).toBeUndefined();
+    const { nextCursor } = (first as { meta: { nextCursor: string } }).meta;
+
+    const next = expectSuccess(
+      await service.findAll({
+        pagination: 'cursor',
+        sort: { description: 1 },
+        limit: 1,
+        after: nextCursor,
+      }),
+    );
+    expect(next.docs[0].name).toBe('b');
+  });
+
+  it('hides them from aggregation results', async () => {
+    await model.create({ name: 'a', description: 'hidden' });
+
+    const { docs } = expectSuccess(await service.aggregate('all'));
+    expect(docs).toHaveLength(1);
+    expect(docs[0]).not.toHaveProperty('description');
+  });
+
+  it('hides them from revisions and their diffs', async () => {
+    const todo = await model.create({ name: 'a', description: 'v1' });
+    await model.findOneAndUpdate({ _id: todo._id }, { description: 'v2', name: 'b' });
+
+    const { docs } = expectSuccess(await service.listRevisions(todo._id));
+    expect(docs).toHaveLength(2);
+    docs.forEach((entry: any) => {
+      expect(entry.snapshot).not.toHaveProperty('description');
+      expect(entry.changes).not.toHaveProperty('description');
+      expect(entry.diff.map(({ path }: { path: string }) => path)).not.toContain('description');
+    });
+  });
+});
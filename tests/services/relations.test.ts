@@ -0,0 +1,52 @@
+import { Types } from 'mongoose';
+import { useDatabase } from '../helpers/database';
+import { expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const tasks = createTodoService('RelationTask');
+const projects = createTodoService('RelationProject', {
+  service: {
+    relations: [{ model: 'RelationTask', foreignKey: 'projectId', onDelete: 'cascade' }],
+  },
+});
+
+const isDeleted = async (id: Types.ObjectId) =>
+  Boolean((await tasks.model.collection.findOne({ _id: id }))?.deletedAt);
+
+describe('relations', () => {
+  useDatabase();
+
+  const createProject = async () => {
+    const project = await projects.model.create({ name: 'project' });
+    const [cascaded, deletedBefore] = await tasks.model.create([
+      { name: 'cascaded', projectId: project._id },
+      { name: 'deleted before', projectId: project._id },
+    ]);
+    expectSuccess(await tasks.service.deleteById(String(deletedBefore._id)));
+    return { project, cascaded, deletedBefore };
+  };
+
+  it('restores the children deleted by the same cascade', async () => {
+    const { project, cascaded, deletedBefore } = await createProject();
+
+    expectSuccess(await projects.service.deleteById(String(project._id)));
+    expect(await isDeleted(cascaded._id)).toBe(true);
+
+    expectSuccess(await projects.service.restoreById(String(project._id)));
+    expect(await isDeleted(cascaded._id)).toBe(false);
+    expect(await isDeleted(deletedBefore._id)).toBe(true);
+  });
+
+  it('restores the children of batch restored documents', async () => {
+    const { project, cascaded, deletedBefore } = await createProject();
+    expectSuccess(await projects.service.deleteById(String(project._id)));
+
+    const { restored } = expectSuccess(
+      await projects.service.batchRestore([{ _id: project._id }]),
+    );
+
+    expect(restored).toBe(1);
+    expect(await isDeleted(cascaded._id)).toBe(false);
+    expect(await isDeleted(deletedBefore._id)).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { AsyncStorageService } from '@nodesandbox/async-storage';
+import { useDatabase } from '../helpers/database';
+import { expectFailure, expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const { model, repository, service } = createTodoService('RevisionTodo', {
+  schema: { tenant: true },
+});
+const HistoryModel = repository.getHistoryModel()!;
+
+let currentTenant: string | undefined;
+
+describe('revisions', () => {
+  useDatabase();
+
+  beforeEach(() => {
+    const storage = AsyncStorageService.getInstance();
+    jest
+      .spyOn(storage, 'get')
+      .mockImplementation((key: string) => (key === 'tenantId' ? currentTenant : undefined));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    currentTenant = undefined;
+  });
+
+  it('records the tenant in the create snapshot', async () => {
+    currentTenant = 'acme';
+    const todo = await model.create({ name: 'scoped' });
+
+    const entry = await HistoryModel.findOne({ originalId: todo._id, action: 'create' }).lean();
+    expect(entry?.snapshot.tenantId).toBe('acme');
+  });
+
+  it('lists the revisions of the current tenant documents only', async () => {
+    currentTenant = 'acme';
+    const todo = await model.create({ name: 'scoped' });
+    const { docs } = expectSuccess(await service.listRevisions(todo._id));
+    expect(docs).toHaveLength(1);
+
+    currentTenant = 'globex';
+    expect(expectFailure(await service.listRevisions(todo._id)).code).toBe('NOT_FOUND_ERROR');
+    expect(
+      expectFailure(await service.getVersionAt(todo._id, new Date())).code,
+    ).toBe('NOT_FOUND_ERROR');
+  });
+
+  it('keeps the revisions of trashed documents readable', async () => {
+    currentTenant = 'acme';
+    const todo = await model.create({ name: 'trashed' });
+    expectSuccess(await service.deleteById(String(todo._id)));
+
+    const { docs } = expectSuccess(await service.listRevisions(todo._id));
+    expect(docs.map((entry: { action: string }) => entry.action)).toEqual([
+      'create',
+      'softDelete',
+    ]);
+  });
+
+  it('reads a document as it was at a version and reverts to it', async () => {
+    currentTenant = 'acme';
+    const todo = await model.create({ name: 'v0', priority: 'low' });
+    expectSuccess(await service.updateById(String(todo._id), { name: 'v1', priority: 'high' }));
+
+    const { docs: version } = expectSuccess(await service.getVersionAt(todo._id, 0));
+    expect(version).toMatchObject({ name: 'v0', priority: 'low' });
+
+    const { docs: entries } = expectSuccess(await service.listRevisions(todo._id));
+    const { docs: reverted } = expectSuccess(await service.revertTo(todo._id, entries[0]._id));
+    expect(reverted).toMatchObject({ name: 'v0', priority: 'low' });
+    expect(reverted.get('__version__')).toBe(2);
+  });
+});
@@ -0,0 +1,80 @@
+import { AsyncStorageService } from '@nodesandbox/async-storage';
+import { useDatabase } from '../helpers/database';
+import { expectFailure, expectSuccess } from '../helpers/response';
+import { createTodoService, ITodo, todoDefinition } from '../helpers/todo';
+import { runWithoutTenantScope } from '../../src/utils/tenant';
+
+const { model, service } = createTodoService('TenantTodo', {
+  definition: { ...todoDefinition, name: { type: String, required: true, unique: true } },
+  schema: { tenant: true },
+});
+const { model: trashModel, service: trashService } = createTodoService('TenantTrashTodo', {
+  schema: { tenant: true },
+  service: { softDelete: { retentionDays: 30 } },
+});
+
+let currentTenant: string | undefined;
+
+describe('tenant scoping', () => {
+  useDatabase();
+
+  beforeEach(() => {
+    const storage = AsyncStorageService.getInstance();
+    jest
+      .spyOn(storage, 'get')
+      .mockImplementation((key: string) => (key === 'tenantId' ? currentTenant : undefined));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    currentTenant = undefined;
+  });
+
+  it('stamps new documents and reads the current tenant documents only', async () => {
+    currentTenant = 'acme';
+    const { docs } = expectSuccess(await service.create({ name: 'shared name' }));
+    expect(docs.get('tenantId')).toBe('acme');
+
+    currentTenant = 'globex';
+    // Unique values only have to be unique within a tenant
+    expectSuccess(await service.create({ name: 'shared name' }));
+
+    const { docs: found } = expectSuccess(await service.findAll());
+    expect(found.map((doc: ITodo) => doc.get('tenantId'))).toEqual(['globex']);
+  });
+
+  it('keeps the tenant of updated documents', async () => {
+    currentTenant = 'acme';
+    const todo = await model.create({ name: 'scoped' });
+
+    await model.updateOne({ _id: todo._id }, { $set: { tenantId: 'globex', name: 'moved' } });
+
+    const stored = await model.collection.findOne({ _id: todo._id });
+    expect(stored).toMatchObject({ tenantId: 'acme', name: 'moved' });
+  });
+
+  it('fails without a tenant unless scoping is bypassed', async () => {
+    currentTenant = 'acme';
+    await model.create({ name: 'scoped' });
+    currentTenant = undefined;
+
+    expect(expectFailure(await service.findAll()).message).toContain('Tenant context is missing');
+    const { docs } = expectSuccess(
+      await runWithoutTenantScope('Report over every tenant', () => service.findAll()),
+    );
+    expect(docs).toHaveLength(1);
+  });
+
+  it('purges the expired trash of every tenant without a tenant context', async () => {
+    const deletedAt = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
+    await trashModel.collection.insertMany([
+      { name: 'acme', tenantId: 'acme', deletedAt },
+      { name: 'globex', tenantId: 'globex', deletedAt },
+    ]);
+
+    const report = expectSuccess(await trashService.purgeExpired());
+
+    expect(report.purged).toBe(2);
+    expect(await trashModel.collection.countDocuments()).toBe(0);
+  });
+});
@@ -0,0 +1,32 @@
+import { useDatabase } from '../helpers/database';
+import { expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const { model, service } = createTodoService('TextSearchTodo', {
+  schema: {
+    textIndex: {
+      fields: ['name', 'description'],
+      weightedFields: { name: 10, description: 1 },
+    },
+  },
+  service: { search: { enabled: true, mode: 'text' } },
+});
+
+describe('text search', () => {
+  useDatabase();
+
+  it('orders results by the weights of the text index', async () => {
+    await model.create([
+      { name: 'groceries', description: 'buy milk' },
+      { name: 'milk the cow', description: 'farm chores' },
+      { name: 'unrelated', description: 'nothing here' },
+    ]);
+
+    const { docs } = expectSuccess(await service.findAll({ searchTerm: 'milk' }));
+
+    expect(docs.map((doc: { name: string }) => doc.name)).toEqual([
+      'milk the cow',
+      'groceries',
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { useDatabase } from '../helpers/database';
+import { expectFailure, expectSuccess } from '../helpers/response';
+import { createTodoService } from '../helpers/todo';
+
+const { model, service } = createTodoService('TransactionTodo', {
+  definition: {
+    name: { type: String, required: true, unique: true },
+    completed: { type: Boolean, default: false },
+    priority: { type: String, default: 'medium' },
+  },
+  service: {
+    validation: {
+      customValidators: {
+        priority: (value: unknown) => value !== 'invalid' || 'Unknown priority.',
+      },
+    },
+  },
+});
+
+describe('transactions', () => {
+  useDatabase();
+
+  it('validates and inserts every document of a transactional batchCreate', async () => {
+    const data = expectSuccess(
+      await service.batchCreate(
+        [{ name: 'first' }, { name: 'second' }, { name: 'third' }],
+        { transaction: true, validateBeforeInsert: true },
+      ),
+    );
+
+    expect(data.docs).toHaveLength(3);
+    expect(await model.countDocuments()).toBe(3);
+  });
+
+  it('rolls back a transactional batchCreate when validation fails', async () => {
+    await model.create({ name: 'taken' });
+
+    const error = expectFailure(
+      await service.batchCreate(
+        [{ name: 'fresh' }, { name: 'taken' }],
+        { transaction: true, validateBeforeInsert: true },
+      ),
+    );
+
+    expect(error.code).toBe('UNIQUE_FIELD_ERROR');
+    expect(await model.countDocuments()).toBe(1);
+  });
+
+  it('rolls back every update of a failed transactional batchUpdate', async () => {
+    await model.create([{ name: 'a' }, { name: 'b' }]);
+
+    expectFailure(
+      await service.batchUpdate(
+        [
+          { filter: { name: 'a' }, update: { completed: true } },
+          { filter: { name: 'b' }, update: { priority: 'invalid' } },
+        ],
+        { transaction: true, validateEach: true },
+      ),
+    );
+
+    expect(await model.countDocuments({ completed: true })).toBe(0);
+  });
+
+  it('aborts withTransaction when the callback returns a failed response', async () => {
+    const result = await service.withTransaction(async () => {
+      expectSuccess(await service.create({ name: 'inside' }));
+      return service.create({ name: 'inside' });
+    });
+
+    expect(result.success).toBe(false);
+    expect(await model.countDocuments()).toBe(0);
+  });
+
+  it('soft deletes with the document method inside a transaction', async () => {
+    const todo = await model.create({ name: 'method' });
+
+    await service.withTransaction(async () => {
+      await (todo as typeof todo & { softDelete(): Promise<void> }).softDelete();
+      throw new Error('rollback');
+    });
+
+    const stored = await model.collection.findOne({ _id: todo._id });
+    expect(stored?.deletedAt).toBeNull();
+  });
+});
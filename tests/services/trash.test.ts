@@ -0,0 +1,57 @@
+import { useDatabase } from '../helpers/database';
+import { expectSuccess } from '../helpers/response';
+import { createTodoService, ITodo } from '../helpers/todo';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const { model, repository, service } = createTodoService('TrashedTodo', {
+  service: { softDelete: { retentionDays: 30 } },
+});
+const HistoryModel = repository.getHistoryModel()!;
+
+const trash = async (names: string[], deletedAt = new Date()) => {
+  const todos = await model.create(names.map((name) => ({ name })));
+  await model.collection.updateMany(
+    { _id: { $in: todos.map((todo) => todo._id) } },
+    { $set: { deletedAt } },
+  );
+  return todos;
+};
+
+describe('trash', () => {
+  useDatabase();
+
+  it('lists the trashed documents only', async () => {
+    await model.create({ name: 'live' });
+    const [todo] = await model.create([{ name: 'deleted' }]);
+    expectSuccess(await service.deleteById(String(todo._id)));
+
+    const response = await service.listTrash();
+    const { docs } = expectSuccess(response);
+
+    expect(docs.map((doc: ITodo) => doc.name)).toEqual(['deleted']);
+    expect(response.success && response.meta?.results).toBe(1);
+  });
+
+  it('purges trashed documents and records their deletion', async () => {
+    await model.create({ name: 'live' });
+    const [todo] = await trash(['deleted']);
+
+    expect(expectSuccess(await service.purge())).toEqual({ purged: 1 });
+
+    expect(await model.collection.countDocuments()).toBe(1);
+    const entries = await HistoryModel.find({ originalId: todo._id, action: 'hardDelete' }).lean();
+    expect(entries).toHaveLength(1);
+  });
+
+  it('purges the documents trashed before the retention period', async () => {
+    await trash(['expired'], new Date(Date.now() - 40 * DAY_IN_MS));
+    await trash(['recent']);
+
+    const report = expectSuccess(await service.purgeExpired());
+
+    expect(report.purged).toBe(1);
+    const remaining = await model.collection.find().toArray();
+    expect(remaining.map((doc) => doc.name)).toEqual(['recent']);
+  });
+});
@@ -0,0 +1,39 @@
+import { useDatabase } from '../helpers/database';
+import { expectSuccess } from '../helpers/response';
+import { createTodoService, ITodo } from '../helpers/todo';
+
+const beforeCreate = jest.fn();
+const beforeUpdate = jest.fn();
+
+const { model, service } = createTodoService('UpsertedTodo', {
+  service: { hooks: { beforeCreate, beforeUpdate } },
+});
+
+describe('upsert', () => {
+  useDatabase();
+
+  afterEach(() => jest.resetAllMocks());
+
+  it('inserts a document from the filter and the data', async () => {
+    const result = expectSuccess(await service.upsert({ name: 'new' }, { priority: 'high' }));
+
+    expect(result.inserted).toBe(true);
+    expect(result.docs).toMatchObject({ name: 'new', priority: 'high' });
+    expect(beforeCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it('updates a document created after it was looked up', async () => {
+    // Another writer inserts the document between the read and the write
+    beforeCreate.mockImplementationOnce(async () => {
+      await model.collection.insertOne({ name: 'shared', priority: 'low', deletedAt: null });
+    });
+
+    const result = expectSuccess(await service.upsert({ name: 'shared' }, { priority: 'high' }));
+
+    expect(result.inserted).toBe(false);
+    expect(beforeUpdate).toHaveBeenCalledTimes(1);
+    const documents = await model.find({ name: 'shared' }).lean<ITodo[]>();
+    expect(documents).toHaveLength(1);
+    expect(documents[0].priority).toBe('high');
+  });
+});
@@ -0,0 +1,74 @@
+import { createJsonSchemaValidator } from '../../src/utils/validation';
+import { useDatabase } from '../helpers/database';
+import { expectFailure, expectSuccess } from '../helpers/response';
+import { createTodoService, todoDefinition } from '../helpers/todo';
+
+const { model, service } = createTodoService('ValidatedTodo', {
+  definition: {
+    ...todoDefinition,
+    location: { city: String, zip: String },
+  },
+  service: {
+    validation: {
+      schema: createJsonSchemaValidator({
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 3 },
+          location: {
+            type: 'object',
+            required: ['city', 'zip'],
+            properties: {
+              city: { type: 'string' },
+              zip: { type: 'string', pattern: '^\\d{5}$' },
+            },
+          },
+        },
+      }),
+      customValidators: {
+        priority: (value) => value !== 'low' || 'Low priority todos are not accepted.',
+      },
+    },
+  },
+});
+
+describe('service validation', () => {
+  useDatabase();
+
+  it('validates dotted paths of an update against the nested schema', async () => {
+    const todo = await model.create({
+      name: 'move',
+      location: { city: 'Paris', zip: '75001' },
+    });
+
+    expectSuccess(
+      await service.updateById(String(todo._id), { $set: { 'location.city': 'Lyon' } }),
+    );
+    const error = expectFailure(
+      await service.updateById(String(todo._id), { $set: { 'location.zip': 'abc' } }),
+    );
+    expect(error.issues).toEqual([
+      expect.objectContaining({ path: 'location.zip', code: 'PATTERN_MISMATCH' }),
+    ]);
+  });
+
+  it('rejects unsetting a required field', async () => {
+    const todo = await model.create({ name: 'keep' });
+
+    const error = expectFailure(
+      await service.updateById(String(todo._id), { $unset: { name: 1 } }),
+    );
+    expect(error.issues).toEqual([expect.objectContaining({ path: 'name', code: 'REQUIRED' })]);
+  });
+
+  it('reports the message of a custom validator', async () => {
+    const error = expectFailure(await service.create({ name: 'chore', priority: 'low' }));
+
+    expect(error.issues).toEqual([
+      expect.objectContaining({
+        path: 'priority',
+        message: 'Low priority todos are not accepted.',
+      }),
+    ]);
+  });
+});
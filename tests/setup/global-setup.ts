@@ -0,0 +1,11 @@
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+
+// A replica set is required for transactions and change streams
+export default async function globalSetup(): Promise<void> {
+  const replSet = await MongoMemoryReplSet.create({
+    replSet: { count: 1, storageEngine: 'wiredTiger' },
+  });
+  (globalThis as typeof globalThis & { __MONGO_REPL_SET__: MongoMemoryReplSet })
+    .__MONGO_REPL_SET__ = replSet;
+  process.env.MONGO_URI = replSet.getUri();
+}
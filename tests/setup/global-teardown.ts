@@ -0,0 +1,8 @@
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+
+export default async function globalTeardown(): Promise<void> {
+  const { __MONGO_REPL_SET__: replSet } = globalThis as typeof globalThis & {
+    __MONGO_REPL_SET__?: MongoMemoryReplSet;
+  };
+  await replSet?.stop();
+}
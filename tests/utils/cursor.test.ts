@@ -0,0 +1,56 @@
+import { buildCursorSort, buildKeysetQuery, decodeCursor, encodeCursor } from '../../src/utils/cursor';
+
+describe('cursor helpers', () => {
+  it('round-trips the sort values of a document', () => {
+    const sort = buildCursorSort({ dueDate: -1 });
+    const dueDate = new Date('2024-05-01');
+    const cursor = encodeCursor(sort, (field) => ({ dueDate, _id: 'id' })[field]);
+
+    expect(decodeCursor(cursor, sort)).toEqual([dueDate, 'id']);
+    expect(() => decodeCursor(cursor, buildCursorSort({ name: 1 }))).toThrow(
+      'The pagination cursor does not match the requested sort.',
+    );
+  });
+
+  it('builds a range on each sort field after the equal prefix', () => {
+    expect(buildKeysetQuery({ priority: 1, _id: 1 }, ['high', 'id'])).toEqual({
+      $or: [
+        { priority: { $gt: 'high' } },
+        { priority: 'high', _id: { $gt: 'id' } },
+      ],
+    });
+  });
+
+  it('moves past null values towards the non-null ones', () => {
+    expect(buildKeysetQuery({ dueDate: 1, _id: 1 }, [null, 'id'])).toEqual({
+      $or: [
+        { dueDate: { $ne: null } },
+        { dueDate: null, _id: { $gt: 'id' } },
+      ],
+    });
+  });
+
+  it('includes null values when moving towards lower values', () => {
+    const dueDate = new Date('2024-05-01');
+
+    expect(buildKeysetQuery({ dueDate: -1, _id: -1 }, [dueDate, 'id'])).toEqual({
+      $or: [
+        { $or: [{ dueDate: { $lt: dueDate } }, { dueDate: null }] },
+        { dueDate, _id: { $lt: 'id' } },
+      ],
+    });
+    expect(buildKeysetQuery({ dueDate: -1, _id: -1 }, [null, 'id'])).toEqual({
+      $or: [{ dueDate: null, _id: { $lt: 'id' } }],
+    });
+  });
+
+  it('rejects cursors without a position', () => {
+    const sort = buildCursorSort({ dueDate: -1 });
+    const cursor = encodeCursor(sort, () => null);
+
+    expect(() => decodeCursor(cursor, sort)).toThrow('The pagination cursor has no position.');
+    expect(() => buildKeysetQuery(sort, [null, null])).toThrow(
+      'The pagination cursor has no position.',
+    );
+  });
+});
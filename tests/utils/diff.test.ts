@@ -0,0 +1,30 @@
+import { diffObjects, omitPaths } from '../../src/utils/diff';
+
+describe('diffObjects', () => {
+  it('lists the changed leaf paths', () => {
+    expect(
+      diffObjects({ name: 'a', meta: { tag: 'x', keep: 1 } }, { name: 'b', meta: { tag: 'y', keep: 1 } }),
+    ).toEqual([
+      { path: 'name', before: 'a', after: 'b' },
+      { path: 'meta.tag', before: 'x', after: 'y' },
+    ]);
+  });
+});
+
+describe('omitPaths', () => {
+  it('removes nested paths without modifying the source', () => {
+    const source = { name: 'a', secret: 'b', meta: { token: 'c', tag: 'd' } };
+
+    expect(omitPaths(source, ['secret', 'meta.token'])).toEqual({
+      name: 'a',
+      meta: { tag: 'd' },
+    });
+    expect(source.meta.token).toBe('c');
+  });
+
+  it('removes dotted keys and keys nested in update operators', () => {
+    expect(
+      omitPaths({ 'secret.value': 1, $set: { secret: 2, name: 'a' } }, ['secret']),
+    ).toEqual({ $set: { name: 'a' } });
+  });
+});
@@ -0,0 +1,66 @@
+import { randomBytes } from 'crypto';
+import {
+  createStaticKeyProvider,
+  decryptValue,
+  encryptValue,
+  getEncryptionKeyId,
+  isEncryptedValue,
+  mapPathValue,
+} from '../../src/utils/encryption';
+
+const oldKey = randomBytes(32);
+const newKey = randomBytes(32);
+
+describe('encryptValue', () => {
+  const keyProvider = createStaticKeyProvider({ old: oldKey, new: newKey }, 'new');
+
+  it('round trips values with the current key', () => {
+    const payload = encryptValue({ iban: 'FR76' }, keyProvider);
+
+    expect(getEncryptionKeyId(payload)).toBe('new');
+    expect(decryptValue(payload, keyProvider)).toEqual({ iban: 'FR76' });
+  });
+
+  it('gives equal ciphertexts for equal values only in deterministic mode', () => {
+    expect(encryptValue('a', keyProvider, true)).toBe(encryptValue('a', keyProvider, true));
+    expect(encryptValue('a', keyProvider)).not.toBe(encryptValue('a', keyProvider));
+  });
+
+  it('keeps values written with an older key readable', () => {
+    const payload = encryptValue('secret', createStaticKeyProvider({ old: oldKey }, 'old'));
+
+    expect(decryptValue(payload, keyProvider)).toBe('secret');
+  });
+
+  it('rejects keys of the wrong length', () => {
+    expect(() => createStaticKeyProvider({ short: randomBytes(16) }, 'short')).toThrow(
+      '32 bytes',
+    );
+  });
+});
+
+describe('isEncryptedValue', () => {
+  const keyProvider = createStaticKeyProvider({ new: newKey }, 'new');
+
+  it('only accepts complete payloads of known keys', () => {
+    const payload = encryptValue('secret', keyProvider);
+
+    expect(isEncryptedValue(payload, keyProvider)).toBe(true);
+    expect(isEncryptedValue('enc:v1:my notes')).toBe(false);
+    expect(isEncryptedValue(payload.replace(':new:', ':old:'), keyProvider)).toBe(false);
+    expect(isEncryptedValue(`${payload}:extra`)).toBe(false);
+  });
+});
+
+describe('mapPathValue', () => {
+  it('follows nested objects and dotted keys', () => {
+    const upper = (value: string) => value.toUpperCase();
+
+    expect(mapPathValue({ bank: { iban: 'fr' } }, 'bank.iban', upper)).toEqual({
+      bank: { iban: 'FR' },
+    });
+    expect(mapPathValue({ 'bank.iban': 'fr' }, 'bank.iban', upper)).toEqual({
+      'bank.iban': 'FR',
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { Schema } from 'mongoose';
+import {
+  getSchemaFieldPaths,
+  resolveExportFields,
+  toDelimitedLine,
+} from '../../src/utils/export';
+
+describe('getSchemaFieldPaths', () => {
+  it('expands single nested subdocuments and skips hidden paths', () => {
+    const schema = new Schema({
+      title: String,
+      secret: { type: String, select: false },
+      author: new Schema({ name: String, email: String }, { _id: false }),
+    });
+
+    expect(getSchemaFieldPaths(schema)).toEqual(
+      expect.arrayContaining(['title', 'author.name', 'author.email']),
+    );
+    expect(getSchemaFieldPaths(schema)).not.toContain('secret');
+    expect(getSchemaFieldPaths(schema)).not.toContain('author');
+  });
+});
+
+describe('resolveExportFields', () => {
+  it('expands included parents and drops excluded paths', () => {
+    const fields = ['title', 'author.name', 'author.email'];
+
+    expect(resolveExportFields(fields, { include: ['author'] })).toEqual([
+      'author.name',
+      'author.email',
+    ]);
+    expect(resolveExportFields(fields, { exclude: ['author.email'] })).toEqual([
+      'title',
+      'author.name',
+    ]);
+  });
+});
+
+describe('toDelimitedLine', () => {
+  it('quotes values holding delimiters, quotes or line breaks', () => {
+    expect(toDelimitedLine(['a,b', 'say "hi"', 'line\nbreak', null])).toBe(
+      '"a,b","say ""hi""","line\nbreak",\r\n',
+    );
+    expect(toDelimitedLine(['a,b', 'c\td'], 'tsv')).toBe('a,b\t"c\td"\r\n');
+  });
+});
@@ -0,0 +1,58 @@
+import { applyFilterPolicy, combineFilters, getFilterPolicy } from '../../src/utils/filter';
+
+const catchError = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the call to throw.');
+};
+
+describe('applyFilterPolicy', () => {
+  it('keeps root operators without a policy but rejects server-side code in them', () => {
+    const expr = { $expr: { $gt: ['$priority', 1] } };
+    expect(applyFilterPolicy(expr, null)).toEqual(expr);
+
+    const error = catchError(() =>
+      applyFilterPolicy(
+        { $expr: { $function: { body: 'return true', args: [], lang: 'js' } } },
+        null,
+      ),
+    );
+    expect(error).toMatchObject({ code: 'INVALID_FILTER' });
+  });
+
+  it('rejects forbidden operators nested in null-prototype objects', () => {
+    const value = Object.assign(Object.create(null), { $where: 'sleep(100)' });
+
+    expect(catchError(() => applyFilterPolicy({ name: value }, null))).toMatchObject({
+      code: 'INVALID_FILTER',
+    });
+  });
+
+  it('checks the operators of null-prototype objects against the policy', () => {
+    const policy = getFilterPolicy({ priority: ['$gte'] });
+    const value = Object.assign(Object.create(null), { $ne: 1 });
+
+    expect(catchError(() => applyFilterPolicy({ priority: value }, policy))).toMatchObject({
+      code: 'INVALID_FILTER',
+    });
+  });
+
+  it('drops top-level fields outside the policy and rejects nested ones', () => {
+    const policy = getFilterPolicy<{ name: string; secret: string }>(['name']);
+
+    expect(applyFilterPolicy({ name: 'a', secret: 'b' }, policy)).toEqual({ name: 'a' });
+    expect(
+      catchError(() => applyFilterPolicy({ $or: [{ name: 'a' }, { secret: 'b' }] }, policy)),
+    ).toMatchObject({ code: 'INVALID_FILTER' });
+  });
+});
+
+describe('combineFilters', () => {
+  it('joins non-empty filters with $and', () => {
+    expect(combineFilters({}, { a: 1 })).toEqual({ a: 1 });
+    expect(combineFilters({ a: 1 }, { b: 2 })).toEqual({ $and: [{ a: 1 }, { b: 2 }] });
+  });
+});
@@ -0,0 +1,20 @@
+import { buildTrigrams, fuzzySimilarity, tokenizeSearchText } from '../../src/utils/fuzzy';
+
+describe('fuzzy helpers', () => {
+  it('drops Latin accents and keeps words of other scripts', () => {
+    expect(tokenizeSearchText('Crème brûlée, 2 parts')).toEqual(['creme', 'brulee', '2', 'parts']);
+    expect(tokenizeSearchText('Москва и 東京')).toEqual(['москва', 'и', '東京']);
+    expect(tokenizeSearchText('नमस्ते दुनिया')).toEqual(['नमस्ते', 'दुनिया']);
+  });
+
+  it('builds trigrams for non-Latin words', () => {
+    expect(buildTrigrams('東京')).toEqual(['  東', ' 東京', '東京 ']);
+    expect(buildTrigrams('𠀀𠀁')).toEqual(['  𠀀', ' 𠀀𠀁', '𠀀𠀁 ']);
+  });
+
+  it('scores close words of any script', () => {
+    expect(fuzzySimilarity('москва', 'Москва')).toBe(1);
+    expect(fuzzySimilarity('moskow', 'moscow')).toBeGreaterThan(0.8);
+    expect(fuzzySimilarity('東京', 'abc')).toBe(0);
+  });
+});
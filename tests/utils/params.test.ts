@@ -0,0 +1,108 @@
+import { Schema, Types } from 'mongoose';
+import { ServiceConfig } from '../../src/types';
+import { parseListQuery } from '../../src/utils/params';
+
+interface ITask {
+  name: string;
+  priority: number;
+  completed: boolean;
+  dueDate: Date;
+  projectId: Types.ObjectId;
+  internalNotes: string;
+}
+
+const schema = new Schema({
+  name: String,
+  priority: Number,
+  completed: Boolean,
+  dueDate: Date,
+  projectId: Schema.Types.ObjectId,
+  internalNotes: String,
+});
+
+const config: ServiceConfig<ITask> = {
+  filter: { allowedFields: ['name', 'priority', 'completed', 'dueDate', 'projectId'] },
+  projection: { forbiddenFields: ['internalNotes'] },
+};
+
+const catchError = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the call to throw.');
+};
+
+describe('parseListQuery', () => {
+  it('coerces filter values to the schema path types', () => {
+    const projectId = new Types.ObjectId();
+    const options = parseListQuery(
+      {
+        'priority[gte]': '2',
+        completed: 'false',
+        'dueDate[lte]': '2024-12-31',
+        projectId: projectId.toString(),
+      },
+      config,
+      schema,
+    );
+
+    expect(options.query).toEqual({
+      priority: { $gte: 2 },
+      completed: false,
+      dueDate: { $lte: new Date('2024-12-31') },
+      projectId,
+    });
+  });
+
+  it('keeps filter values as strings without a schema', () => {
+    const options = parseListQuery({ priority: { in: '1,2' } }, config);
+
+    expect(options.query).toEqual({ priority: { $in: ['1', '2'] } });
+  });
+
+  it('parses paging, sorting and field selection', () => {
+    const options = parseListQuery(
+      { page: '2', limit: '5', sort: '-dueDate,name', fields: 'name,dueDate' },
+      config,
+      schema,
+    );
+
+    expect(options).toMatchObject({
+      page: 2,
+      limit: 5,
+      sort: { dueDate: -1, name: 1 },
+      select: { name: 1, dueDate: 1 },
+    });
+  });
+
+  it('rejects filters, sorts and selections outside the allowed fields', () => {
+    expect(catchError(() => parseListQuery({ owner: 'x' }, config))).toMatchObject({
+      code: 'INVALID_FILTER',
+    });
+    expect(catchError(() => parseListQuery({ sort: 'owner' }, config))).toMatchObject({
+      code: 'INVALID_FILTER',
+    });
+    expect(catchError(() => parseListQuery({ fields: 'name,owner' }, config))).toMatchObject({
+      code: 'INVALID_FILTER',
+    });
+  });
+
+  it('rejects selecting forbidden fields', () => {
+    const error = catchError(() =>
+      parseListQuery({ fields: 'internalNotes' }, { projection: config.projection }),
+    );
+
+    expect(error).toMatchObject({ code: 'INVALID_FILTER' });
+    expect(parseListQuery({ fields: '-internalNotes' }, config).select).toEqual({
+      internalNotes: 0,
+    });
+  });
+
+  it('rejects invalid values for typed paths', () => {
+    expect(catchError(() => parseListQuery({ priority: 'high' }, config, schema))).toMatchObject({
+      code: 'INVALID_QUERY',
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { createJsonSchemaValidator } from '../../src/utils/validation';
+import { JsonSchema } from '../../src/types';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['title', 'address'],
+  properties: {
+    title: { type: 'string', minLength: 3 },
+    address: {
+      type: 'object',
+      required: ['city', 'zip'],
+      properties: { city: { type: 'string' }, zip: { type: 'string' } },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+const validator = createJsonSchemaValidator(schema);
+
+describe('createJsonSchemaValidator', () => {
+  it('reports every violation of a create', async () => {
+    const issues = await validator.validate(
+      { title: 'ab', address: { city: 'Paris' }, extra: true },
+      { mode: 'create', partial: false },
+    );
+
+    expect(issues.map(({ path, code }) => [path, code])).toEqual([
+      ['title', 'TOO_SHORT'],
+      ['address.zip', 'REQUIRED'],
+      ['extra', 'UNKNOWN_FIELD'],
+    ]);
+  });
+
+  it('checks the objects of partial paths without their missing properties', async () => {
+    const issues = await validator.validate(
+      { address: { city: 42 } },
+      { mode: 'update', partial: true, partialPaths: ['address'] },
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({ path: 'address.city', code: 'INVALID_TYPE' }),
+    ]);
+  });
+
+  it('rejects unsetting required properties', async () => {
+    const issues = await validator.validate({}, {
+      mode: 'update',
+      partial: true,
+      unsetPaths: ['title', 'address.zip', 'address.other'],
+    });
+
+    expect(issues.map(({ path, code }) => [path, code])).toEqual([
+      ['title', 'REQUIRED'],
+      ['address.zip', 'REQUIRED'],
+    ]);
+  });
+});